@@ -0,0 +1,140 @@
+import type { GameState, Patch, Shape } from './types';
+import type { BuyPatchAction, PlacementInfo, SkipAction } from './history';
+import { canBuyPatch, getLegalPlacements } from './engine';
+import { getAvailablePatches, getCurrentPlayerIndex, getOvertakeDistance } from './game';
+import { getFragmentationScore } from './board-analysis';
+import { getTransformedShape } from './shape-utils';
+import { getBonusSquareSize } from './variants';
+
+/**
+ * Heuristic computer player. Every affordable patch is tried at every legal placement and
+ * scored in buttons: the penalty its cells remove, the income it pays at the checkpoints
+ * still ahead, minus its button and time cost, plus how it leaves the board (dead regions
+ * no patch still to come fits, contact with edges and other patches, progress towards the bonus square).
+ * Skipping scores zero, since each space skipped pays one button.
+ */
+
+type Board = (number | null)[][];
+
+// Heuristic weights, in buttons
+const TIME_SPACE_VALUE = 1;         // Matches the button a skipped space pays
+const CONTACT_VALUE = 0.25;         // Per placed cell edge against the border or another patch
+const BONUS_PROGRESS_VALUE = 0.3;   // Per filled cell in the most complete bonus square window
+
+export interface ScoredPlacement {
+  placement: PlacementInfo;
+  score: number;
+}
+
+/**
+ * Pick the current player's turn: the best buy, or a skip when no buy beats it.
+ */
+export function chooseComputerAction(state: GameState): BuyPatchAction | SkipAction {
+  const playerIndex = getCurrentPlayerIndex(state);
+  let best: BuyPatchAction | null = null;
+  let bestScore = 0;  // Skipping
+
+  const patches = getAvailablePatches(state);
+  for (let patchIndex = 0; patchIndex < patches.length; patchIndex++) {
+    if (!canBuyPatch(state, patchIndex)) continue;
+    const patch = patches[patchIndex];
+    const placement = chooseBestPlacement(state, playerIndex, patch);
+    if (!placement) continue;
+
+    const score = evaluatePurchase(state, playerIndex, patch) + placement.score;
+    if (score > bestScore) {
+      bestScore = score;
+      best = { type: 'buyPatch', playerIndex, patchIndex, patchId: patch.id, placement: placement.placement };
+    }
+  }
+
+  return best ?? { type: 'skip', playerIndex, spacesSkipped: getOvertakeDistance(state) };
+}
+
+/**
+ * Best legal placement of a patch on a player's board, or null when it fits nowhere.
+ * Also used for leather patches.
+ */
+export function chooseBestPlacement(state: GameState, playerIndex: 0 | 1, patch: Patch): ScoredPlacement | null {
+  const board = state.players[playerIndex].board;
+  const bonusSize = state.bonus7x7Claimed ? null : getBonusSquareSize(state.boardSize);
+  const before = evaluateBoard(state, playerIndex, board, bonusSize);
+
+  let best: ScoredPlacement | null = null;
+  for (const placement of getLegalPlacements(board, patch)) {
+    const shape = getTransformedShape(patch.shape, placement.rotation, placement.reflected);
+    const after = board.map(row => [...row]);
+    forEachShapeCell(shape, (col, row) => { after[placement.y + row][placement.x + col] = patch.id; });
+
+    const score = evaluateBoard(state, playerIndex, after, bonusSize) - before + countContacts(board, shape, placement) * CONTACT_VALUE;
+    if (!best || score > best.score) {
+      best = { placement, score };
+    }
+  }
+  return best;
+}
+
+/**
+ * Net value of a patch in buttons, ignoring where it goes.
+ */
+export function evaluatePurchase(state: GameState, playerIndex: 0 | 1, patch: Patch): number {
+  const player = state.players[playerIndex];
+  // Income is raised before moving, so checkpoints crossed by this move already pay it
+  const checkpointsAhead = state.incomePositions.filter(pos => pos > player.position).length;
+  let cells = 0;
+  forEachShapeCell(patch.shape, () => { cells++; });
+
+  return cells * state.rules.emptyCellPenalty +
+    patch.buttonIncome * checkpointsAhead -
+    patch.buttonCost -
+    patch.timeCost * TIME_SPACE_VALUE;
+}
+
+// Board shape quality: dead regions cost, bonus square progress earns
+function evaluateBoard(state: GameState, playerIndex: 0 | 1, board: Board, bonusSize: number | null): number {
+  let score = -getFragmentationScore(state, playerIndex, board);
+  if (bonusSize !== null) {
+    score += getBestWindowFill(board, bonusSize) * BONUS_PROGRESS_VALUE;
+  }
+  return score;
+}
+
+// Most filled cells in any bonus-square-sized window of the board
+function getBestWindowFill(board: Board, windowSize: number): number {
+  const size = board.length;
+  let best = 0;
+  for (let y = 0; y + windowSize <= size; y++) {
+    for (let x = 0; x + windowSize <= size; x++) {
+      let filled = 0;
+      for (let dy = 0; dy < windowSize; dy++) {
+        for (let dx = 0; dx < windowSize; dx++) {
+          if (board[y + dy][x + dx] !== null) filled++;
+        }
+      }
+      best = Math.max(best, filled);
+    }
+  }
+  return best;
+}
+
+// Edges of the placed cells that touch the border or an already filled cell
+function countContacts(board: Board, shape: Shape, placement: PlacementInfo): number {
+  const size = board.length;
+  let contacts = 0;
+  forEachShapeCell(shape, (col, row) => {
+    const x = placement.x + col;
+    const y = placement.y + row;
+    for (const [nx, ny] of [[x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]]) {
+      if (nx < 0 || ny < 0 || nx >= size || ny >= size || board[ny][nx] !== null) contacts++;
+    }
+  });
+  return contacts;
+}
+
+function forEachShapeCell(shape: Shape, visit: (col: number, row: number) => void): void {
+  for (let row = 0; row < shape.length; row++) {
+    for (let col = 0; col < shape[row].length; col++) {
+      if (shape[row][col]) visit(col, row);
+    }
+  }
+}
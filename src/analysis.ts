@@ -0,0 +1,109 @@
+import type { GameState } from './types';
+import type { GameAction, GameHistory } from './history';
+import { applyAction, createInitialState } from './engine';
+import { calculateScore } from './game';
+import { listTurns, placeLeatherByHeuristic, playOut, playTurn, type TurnAction } from './mcts';
+
+/**
+ * Post-game analysis. Every buy and skip is compared with the alternatives open at the
+ * time: each candidate turn is played, then the game is finished by a greedy playout for
+ * both players, and the candidates are ranked by the mover's final score margin. The
+ * played turn keeps its own placement and the leather patches recorded after it.
+ */
+
+export type MoveQuality = 'best' | 'good' | 'inaccuracy' | 'blunder';
+
+export interface MoveAnalysis {
+  turn: number;         // 1-based, as counted by the replay
+  actionIndex: number;  // Index in history.actions
+  playerIndex: 0 | 1;
+  played: TurnAction;
+  best: TurnAction;
+  scoreLoss: number;    // Final score margin given up against the best turn
+  quality: MoveQuality;
+}
+
+export interface GameAnalysis {
+  moves: MoveAnalysis[];
+  accuracy: [number, number];  // Percent per player
+}
+
+// Score margin lost, in points, from which a turn is an inaccuracy or a blunder
+export const INACCURACY_LOSS = 4;
+export const BLUNDER_LOSS = 10;
+
+// Loss at which a turn's accuracy falls to about 37%
+const ACCURACY_LOSS_SCALE = 10;
+
+export function analyzeGame(history: GameHistory): GameAnalysis {
+  const moves: MoveAnalysis[] = [];
+  let state = createInitialState(history);
+  let turn = 0;
+
+  for (let i = 0; i < history.actions.length; i++) {
+    const action = history.actions[i];
+    if (action.type !== 'leatherPatch') {
+      turn++;
+      moves.push(analyzeTurn(state, history.actions, i, turn));
+    }
+    const result = applyAction(state, action);
+    if (result.error !== null) break;
+    state = result.state;
+  }
+
+  return {
+    moves,
+    accuracy: [getAccuracy(moves, 0), getAccuracy(moves, 1)],
+  };
+}
+
+/**
+ * Analyse the turn at actions[actionIndex], played from `state`, with the leather patches
+ * recorded after it.
+ */
+export function analyzeTurn(state: GameState, actions: GameAction[], actionIndex: number, turn: number): MoveAnalysis {
+  const played = actions[actionIndex] as TurnAction;
+  const playerIndex = played.playerIndex;
+
+  // The turn as played, with the leather patches that followed it
+  let afterPlayed = applyAction(state, played).state;
+  for (let i = actionIndex + 1; i < actions.length && actions[i].type === 'leatherPatch'; i++) {
+    afterPlayed = applyAction(afterPlayed, actions[i]).state;
+  }
+  const playedMargin = getFinalMargin(afterPlayed, playerIndex);
+
+  let best = played;
+  let bestMargin = playedMargin;
+  for (const candidate of listTurns(state)) {
+    const margin = getFinalMargin(playTurn(state, candidate, placeLeatherByHeuristic), playerIndex);
+    if (margin > bestMargin) {
+      bestMargin = margin;
+      best = candidate;
+    }
+  }
+
+  const scoreLoss = bestMargin - playedMargin;
+  return { turn, actionIndex, playerIndex, played, best, scoreLoss, quality: getMoveQuality(scoreLoss) };
+}
+
+// Mover's final score lead after finishing the game greedily from this state
+function getFinalMargin(state: GameState, playerIndex: 0 | 1): number {
+  const finalState = playOut(state, null);
+  const own = calculateScore(finalState.players[playerIndex], finalState.rules);
+  const opponent = calculateScore(finalState.players[1 - playerIndex], finalState.rules);
+  return own - opponent;
+}
+
+function getMoveQuality(scoreLoss: number): MoveQuality {
+  if (scoreLoss >= BLUNDER_LOSS) return 'blunder';
+  if (scoreLoss >= INACCURACY_LOSS) return 'inaccuracy';
+  return scoreLoss === 0 ? 'best' : 'good';
+}
+
+// Mean per-turn accuracy, each turn decaying exponentially with the score it gave up
+function getAccuracy(moves: MoveAnalysis[], playerIndex: 0 | 1): number {
+  const own = moves.filter(move => move.playerIndex === playerIndex);
+  if (own.length === 0) return 100;
+  const total = own.reduce((sum, move) => sum + 100 * Math.exp(-move.scoreLoss / ACCURACY_LOSS_SCALE), 0);
+  return Math.round(total / own.length);
+}
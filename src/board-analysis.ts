@@ -0,0 +1,117 @@
+import type { GameState, Patch, Shape } from './types';
+import type { PlacementInfo } from './history';
+import { canPatchFit } from './engine';
+import { getTransformedShape } from './shape-utils';
+
+/**
+ * Board fragmentation. The empty cells of a board split into regions; a region is dead
+ * when no patch still to come fits inside it, so its cells will stay empty unless leather
+ * patches fill them. Patches still to come are every patch left in the market circle,
+ * whatever it costs, and each leather patch still ahead on the player's track can fill
+ * one dead cell.
+ */
+
+type Board = (number | null)[][];
+
+export interface BoardCell {
+  x: number;
+  y: number;
+}
+
+/**
+ * Empty regions of a board, each a list of orthogonally connected empty cells.
+ */
+export function findEmptyRegions(board: Board): BoardCell[][] {
+  const size = board.length;
+  const visited = board.map(row => row.map(() => false));
+  const regions: BoardCell[][] = [];
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (board[y][x] !== null || visited[y][x]) continue;
+
+      // Flood fill one empty region
+      const region: BoardCell[] = [];
+      const stack: [number, number][] = [[x, y]];
+      visited[y][x] = true;
+      while (stack.length > 0) {
+        const [cx, cy] = stack.pop()!;
+        region.push({ x: cx, y: cy });
+        for (const [nx, ny] of [[cx + 1, cy], [cx - 1, cy], [cx, cy + 1], [cx, cy - 1]]) {
+          if (nx < 0 || ny < 0 || nx >= size || ny >= size) continue;
+          if (board[ny][nx] !== null || visited[ny][nx]) continue;
+          visited[ny][nx] = true;
+          stack.push([nx, ny]);
+        }
+      }
+      regions.push(region);
+    }
+  }
+  return regions;
+}
+
+/**
+ * Empty cells in regions that none of the given patches fits inside.
+ */
+export function findDeadCells(board: Board, patches: Patch[]): BoardCell[] {
+  const deadCells: BoardCell[] = [];
+
+  for (const region of findEmptyRegions(board)) {
+    const fits = patches.some(patch => countCells(patch.shape) <= region.length && fitsInRegion(board, region, patch));
+    if (!fits) deadCells.push(...region);
+  }
+  return deadCells;
+}
+
+/**
+ * Expected penalty from dead regions on a board of the player (their own board by default),
+ * after the leather patches still ahead of them fill what they can.
+ */
+export function getFragmentationScore(
+  state: GameState,
+  playerIndex: 0 | 1,
+  board: Board = state.players[playerIndex].board
+): number {
+  const position = state.players[playerIndex].position;
+  const leatherPatchesAhead = state.leatherPatches.filter(lp => !lp.collected && lp.position > position).length;
+  const deadCells = findDeadCells(board, state.patches).length;
+  return Math.max(0, deadCells - leatherPatchesAhead) * state.rules.emptyCellPenalty;
+}
+
+/**
+ * Cells that placing the patch would leave dead but that are not dead now. A market patch
+ * no longer counts as still to come once it is placed.
+ */
+export function findNewlyDeadCells(state: GameState, playerIndex: 0 | 1, patch: Patch, placement: PlacementInfo): BoardCell[] {
+  const board = state.players[playerIndex].board;
+  const remaining = state.patches.filter(p => p.id !== patch.id);
+  const deadBefore = new Set(findDeadCells(board, remaining).map(cell => cell.y * board.length + cell.x));
+
+  const after = board.map(row => [...row]);
+  const shape = getTransformedShape(patch.shape, placement.rotation, placement.reflected);
+  for (let row = 0; row < shape.length; row++) {
+    for (let col = 0; col < shape[row].length; col++) {
+      if (shape[row][col]) after[placement.y + row][placement.x + col] = patch.id;
+    }
+  }
+  return findDeadCells(after, remaining).filter(cell => !deadBefore.has(cell.y * board.length + cell.x));
+}
+
+// Whether the patch fits with every cell outside the region treated as filled
+function fitsInRegion(board: Board, region: BoardCell[], patch: Patch): boolean {
+  const mask: Board = board.map(row => row.map(() => 0));
+  for (const cell of region) mask[cell.y][cell.x] = null;
+  return canPatchFit(mask, patch);
+}
+
+// Patch shapes are never mutated, and the computer player asks for their sizes very often
+const cellCountCache = new WeakMap<Shape, number>();
+
+function countCells(shape: Shape): number {
+  let count = cellCountCache.get(shape);
+  if (count === undefined) {
+    count = shape.flat().filter(cell => cell === 1).length;
+    cellCountCache.set(shape, count);
+  }
+  return count;
+}
@@ -5,6 +5,7 @@ export const COLORS = {
   text: '#ecf0f1',
   button: '#27ae60',
   buttonDisabled: '#7f8c8d',
+  patchNoFit: '#6b3a3a',  // Muted red for affordable patches with no legal spot
   boardBg: '#1a252f',
   boardGrid: '#2c3e50',
   buttonIndicator: '#3498db',
@@ -21,7 +22,11 @@ export const COLORS = {
   ],
   ghostValid: 'rgba(46, 204, 113, 0.5)',
   ghostInvalid: 'rgba(231, 76, 60, 0.5)',
+  deadCell: 'rgba(44, 62, 80, 0.6)',
   bonus7x7: '#f1c40f',  // Gold color for 7x7 bonus
+  hint: '#f39c12',  // Amber outline for the hinted patch or skip
+  inaccuracy: '#e67e22',  // Orange for analysed turns that gave up some score
+  blunder: '#c0392b',  // Red for analysed turns that gave up a lot
 } as const;
 
 /**
@@ -0,0 +1,389 @@
+import type { GameState, Patch, Player, Shape } from './types';
+import type { BuyPatchAction, GameAction, GameHistory, LeatherPatchAction, PlacementInfo, SkipAction } from './history';
+import { canPlacePatch, cloneGameState, createGameState, findFilledSquare, getAvailablePatches, getCurrentPlayerIndex, getUncollectedLeatherPatch } from './game';
+import { getOpponentIndex } from './player-utils';
+import { getTransformedShape } from './shape-utils';
+import { getBonusSquareSize } from './variants';
+
+// Events describing what happened while applying an action
+export interface PatchBoughtEvent {
+  type: 'patchBought';
+  playerIndex: 0 | 1;
+  patchId: number;
+}
+
+export interface SkippedEvent {
+  type: 'skipped';
+  playerIndex: 0 | 1;
+  spacesSkipped: number;
+}
+
+export interface IncomeCollectedEvent {
+  type: 'incomeCollected';
+  playerIndex: 0 | 1;
+  amount: number;
+}
+
+export interface LeatherPatchCrossedEvent {
+  type: 'leatherPatchCrossed';
+  playerIndex: 0 | 1;
+  trackPosition: number;
+}
+
+export interface LeatherPatchPlacedEvent {
+  type: 'leatherPatchPlaced';
+  playerIndex: 0 | 1;
+  trackPosition: number;
+}
+
+export interface LeatherPatchForfeitedEvent {
+  type: 'leatherPatchForfeited';
+  playerIndex: 0 | 1;
+  trackPosition: number;
+}
+
+export interface Bonus7x7ClaimedEvent {
+  type: 'bonus7x7Claimed';
+  playerIndex: 0 | 1;
+}
+
+export type GameEvent =
+  | PatchBoughtEvent
+  | SkippedEvent
+  | IncomeCollectedEvent
+  | LeatherPatchCrossedEvent
+  | LeatherPatchPlacedEvent
+  | LeatherPatchForfeitedEvent
+  | Bonus7x7ClaimedEvent;
+
+export interface ActionResult {
+  state: GameState;
+  events: GameEvent[];
+  error: string | null;  // Set when the action was illegal; state is then the unchanged input
+}
+
+/**
+ * Apply a game action to a state and return the resulting state.
+ * The input state is never mutated. This is the single code path for
+ * live play, replays and stats, so recorded history always matches the game.
+ */
+export function applyAction(state: GameState, action: GameAction): ActionResult {
+  // Leather patches belong to the player who crossed them, who may no longer be the current player
+  if (action.type !== 'leatherPatch' && action.playerIndex !== getCurrentPlayerIndex(state)) {
+    return rejected(state, `Player ${action.playerIndex + 1} acted out of turn`);
+  }
+
+  switch (action.type) {
+    case 'buyPatch':
+      return applyBuyPatch(state, action);
+    case 'skip':
+      return applySkip(state, action);
+    case 'leatherPatch':
+      return applyLeatherPatch(state, action);
+  }
+}
+
+/**
+ * Recreate the starting state of a recorded game from its seed.
+ */
+export function createInitialState(history: GameHistory): GameState {
+  return createGameState(
+    history.boardSize,
+    history.playerNames,
+    history.firstPlayerIndex,
+    history.rules,
+    history.seed,
+    history.patchOrder
+  ).state;
+}
+
+/**
+ * Collect the track positions of leather patches crossed during an action.
+ */
+export function getCrossedLeatherPositions(events: GameEvent[]): number[] {
+  const positions: number[] = [];
+  for (const event of events) {
+    if (event.type === 'leatherPatchCrossed') {
+      positions.push(event.trackPosition);
+    }
+  }
+  return positions;
+}
+
+// A distinct orientation of a patch shape and the transform that produces it
+export interface PatchOrientation {
+  rotation: number;
+  reflected: boolean;
+  shape: Shape;
+}
+
+// Patch shapes are never mutated, so their orientations are worked out once
+const orientationCache = new WeakMap<Shape, readonly PatchOrientation[]>();
+
+/**
+ * List the distinct orientations of a shape. Transforms that give the same cells
+ * (e.g. rotating a square) are merged, keeping the first in rotation-then-reflection order.
+ */
+export function getDistinctOrientations(shape: Shape): readonly PatchOrientation[] {
+  const cached = orientationCache.get(shape);
+  if (cached) return cached;
+
+  const orientations: PatchOrientation[] = [];
+  const seen = new Set<string>();
+  for (const reflected of [false, true]) {
+    for (let rotation = 0; rotation < 4; rotation++) {
+      const transformed = getTransformedShape(shape, rotation, reflected);
+      const key = transformed.map(row => row.map(cell => cell ? '1' : '0').join('')).join('|');
+      if (!seen.has(key)) {
+        seen.add(key);
+        orientations.push({ rotation, reflected, shape: transformed });
+      }
+    }
+  }
+  orientationCache.set(shape, orientations);
+  return orientations;
+}
+
+/**
+ * List every legal placement of a patch on a board, one per distinct orientation and position.
+ */
+export function getLegalPlacements(board: (number | null)[][], patch: Patch): PlacementInfo[] {
+  const placements: PlacementInfo[] = [];
+  for (const { rotation, reflected, shape } of getDistinctOrientations(patch.shape)) {
+    forEachFittingPosition(board, shape, (x, y) => {
+      placements.push({ x, y, rotation, reflected });
+      return true;
+    });
+  }
+  return placements;
+}
+
+/**
+ * Whether a patch fits anywhere on a board. Stops at the first legal placement.
+ */
+export function canPatchFit(board: (number | null)[][], patch: Patch): boolean {
+  return getDistinctOrientations(patch.shape).some(({ shape }) => {
+    let found = false;
+    forEachFittingPosition(board, shape, () => {
+      found = true;
+      return false;
+    });
+    return found;
+  });
+}
+
+/**
+ * Whether a player must forfeit the uncollected leather patch at a track position
+ * because it has no legal position on their board.
+ */
+export function mustForfeitLeatherPatch(state: GameState, playerIndex: 0 | 1, trackPosition: number): boolean {
+  const patch = getUncollectedLeatherPatch(state, trackPosition);
+  return patch !== null && !canPatchFit(state.players[playerIndex].board, patch);
+}
+
+/**
+ * Whether the current player can buy the patch in a market slot: affordable and fits somewhere.
+ */
+export function canBuyPatch(state: GameState, patchIndex: number): boolean {
+  const patch = getAvailablePatches(state)[patchIndex];
+  if (!patch) return false;
+  const player = state.players[getCurrentPlayerIndex(state)];
+  return player.buttons >= patch.buttonCost && canPatchFit(player.board, patch);
+}
+
+export function canBuyAnyPatch(state: GameState): boolean {
+  return getAvailablePatches(state).some((_, i) => canBuyPatch(state, i));
+}
+
+// Call visit for each position where shape fits, until it returns false
+function forEachFittingPosition(
+  board: (number | null)[][],
+  shape: Shape,
+  visit: (x: number, y: number) => boolean
+): void {
+  const boardSize = board.length;
+  const height = shape.length;
+  const width = shape[0]?.length ?? 0;
+  for (let y = 0; y + height <= boardSize; y++) {
+    for (let x = 0; x + width <= boardSize; x++) {
+      if (canPlacePatch(board, shape, x, y) && !visit(x, y)) return;
+    }
+  }
+}
+
+function rejected(state: GameState, error: string): ActionResult {
+  return { state, events: [], error };
+}
+
+function applyBuyPatch(state: GameState, action: BuyPatchAction): ActionResult {
+  const patch = getAvailablePatches(state)[action.patchIndex];
+  if (!patch) return rejected(state, `No patch in market slot ${action.patchIndex + 1}`);
+
+  const playerIndex = action.playerIndex;
+  if (state.players[playerIndex].buttons < patch.buttonCost) {
+    return rejected(state, `Cannot afford patch ${patch.id}`);
+  }
+
+  const shape = getTransformedShape(patch.shape, action.placement.rotation, action.placement.reflected);
+  if (!canPlacePatch(state.players[playerIndex].board, shape, action.placement.x, action.placement.y)) {
+    return rejected(state, `Patch ${patch.id} does not fit at (${action.placement.x}, ${action.placement.y})`);
+  }
+
+  const next = cloneGameState(state);
+  const player = next.players[playerIndex];
+  const events: GameEvent[] = [{ type: 'patchBought', playerIndex, patchId: patch.id }];
+
+  // Pay for the patch and gain its income
+  player.buttons -= patch.buttonCost;
+  player.income += patch.buttonIncome;
+
+  // Advance on time track (handles income collection)
+  movePlayer(next, playerIndex, patch.timeCost, events);
+
+  placePatch(next, playerIndex, patch, action.placement, events);
+
+  // Remove patch from market and move token to where bought patch was
+  const actualIndex = (next.marketPosition + action.patchIndex) % next.patches.length;
+  next.patches.splice(actualIndex, 1);
+
+  // Token moves to where the bought patch was (now points to next patch in circle)
+  if (next.patches.length > 0) {
+    next.marketPosition = actualIndex % next.patches.length;
+  }
+
+  return { state: next, events, error: null };
+}
+
+function applySkip(state: GameState, action: SkipAction): ActionResult {
+  const playerIndex = action.playerIndex;
+  const player = state.players[playerIndex];
+  const opponent = state.players[getOpponentIndex(playerIndex)];
+
+  // Move just ahead of opponent
+  const spacesToMove = opponent.position - player.position + 1;
+  if (spacesToMove <= 0) {
+    return rejected(state, `Player ${playerIndex + 1} is not behind the opponent`);
+  }
+
+  const next = cloneGameState(state);
+  const events: GameEvent[] = [{ type: 'skipped', playerIndex, spacesSkipped: spacesToMove }];
+
+  // Earn buttons equal to spaces moved
+  next.players[playerIndex].buttons += spacesToMove;
+
+  // Advance on time track (handles income collection)
+  movePlayer(next, playerIndex, spacesToMove, events);
+
+  return { state: next, events, error: null };
+}
+
+function applyLeatherPatch(state: GameState, action: LeatherPatchAction): ActionResult {
+  const patch = getUncollectedLeatherPatch(state, action.trackPosition);
+  if (!patch) return rejected(state, `No leather patch to collect at position ${action.trackPosition}`);
+
+  const playerIndex = action.playerIndex;
+  if (state.players[playerIndex].position < action.trackPosition) {
+    return rejected(state, `Player ${playerIndex + 1} has not reached position ${action.trackPosition}`);
+  }
+
+  // A leather patch with no legal position is forfeited: taken off the track but never placed
+  const placement = action.placement;
+  if (placement === null) {
+    if (canPatchFit(state.players[playerIndex].board, patch)) {
+      return rejected(state, `Leather patch at ${action.trackPosition} fits and cannot be forfeited`);
+    }
+  } else {
+    const shape = getTransformedShape(patch.shape, placement.rotation, placement.reflected);
+    if (!canPlacePatch(state.players[playerIndex].board, shape, placement.x, placement.y)) {
+      return rejected(state, `Leather patch does not fit at (${placement.x}, ${placement.y})`);
+    }
+  }
+
+  const next = cloneGameState(state);
+  const events: GameEvent[] = [];
+
+  // No button cost, no time cost, no income - just mark collected and place on board
+  const leatherPatch = next.leatherPatches.find(lp => lp.position === action.trackPosition && !lp.collected)!;
+  leatherPatch.collected = true;
+
+  if (placement === null) {
+    events.push({ type: 'leatherPatchForfeited', playerIndex, trackPosition: action.trackPosition });
+  } else {
+    events.push({ type: 'leatherPatchPlaced', playerIndex, trackPosition: action.trackPosition });
+    placePatch(next, playerIndex, patch, placement, events);
+  }
+
+  return { state: next, events, error: null };
+}
+
+// Mutates the draft state produced by cloneGameState
+function movePlayer(draft: GameState, playerIndex: 0 | 1, spaces: number, events: GameEvent[]): void {
+  const player = draft.players[playerIndex];
+  const oldPosition = player.position;
+  const newPosition = Math.min(oldPosition + spaces, draft.timeTrackLength);
+
+  // Check for income checkpoints crossed (triggered when landing on or passing through)
+  const checkpointsCrossed = draft.incomePositions.filter(
+    pos => oldPosition < pos && newPosition >= pos
+  );
+
+  // Collect income for each checkpoint
+  const income = checkpointsCrossed.length * player.income;
+  if (checkpointsCrossed.length > 0) {
+    player.buttons += income;
+    events.push({ type: 'incomeCollected', playerIndex, amount: income });
+  }
+
+  // Check for leather patches crossed (uncollected only)
+  for (const lp of draft.leatherPatches) {
+    if (!lp.collected && oldPosition < lp.position && newPosition >= lp.position) {
+      events.push({ type: 'leatherPatchCrossed', playerIndex, trackPosition: lp.position });
+    }
+  }
+
+  // A token landing on an occupied space stacks on top of it
+  if (newPosition !== oldPosition) {
+    draft.lastArrivedPlayerIndex = playerIndex;
+  }
+  if (newPosition === draft.timeTrackLength && oldPosition < newPosition) {
+    draft.finishOrder.push(playerIndex);
+  }
+  player.position = newPosition;
+}
+
+// Mutates the draft state produced by cloneGameState
+function placePatch(
+  draft: GameState,
+  playerIndex: 0 | 1,
+  patch: Patch,
+  placement: PlacementInfo,
+  events: GameEvent[]
+): void {
+  const player = draft.players[playerIndex];
+  placePatchOnBoard(player, patch, placement);
+
+  // Check for the bonus square after placing patch
+  if (!draft.bonus7x7Claimed) {
+    const area = findFilledSquare(player.board, getBonusSquareSize(draft.boardSize));
+    if (area !== null) {
+      player.bonus7x7Area = area;
+      draft.bonus7x7Claimed = true;
+      events.push({ type: 'bonus7x7Claimed', playerIndex });
+    }
+  }
+}
+
+function placePatchOnBoard(player: Player, patch: Patch, placement: PlacementInfo): void {
+  const { x, y, rotation, reflected } = placement;
+  const shape = getTransformedShape(patch.shape, rotation, reflected);
+
+  for (let row = 0; row < shape.length; row++) {
+    for (let col = 0; col < shape[row].length; col++) {
+      if (shape[row][col]) {
+        player.board[y + row][x + col] = patch.id;
+      }
+    }
+  }
+
+  player.placedPatches.push({ patch, x, y, rotation, reflected });
+}
@@ -0,0 +1,104 @@
+import type { ComputerLevel } from './types';
+import type { GameHistory } from './history';
+import { migrateHistory } from './history-schema';
+
+const DB_NAME = 'patchwork';
+const DB_VERSION = 1;
+const GAMES_STORE = 'games';
+
+// A finished game stored in the library
+export interface GameRecord {
+  id?: number;  // Assigned by IndexedDB on save
+  history: GameHistory;
+  playerNames: [string, string];
+  finalScores: [number, number];
+  finishedAt: number;   // Epoch ms
+  durationMs: number | null;  // Null when the start time was not recorded
+  computerPlayers?: [ComputerLevel | null, ComputerLevel | null];  // Absent for games stored before seats were recorded
+}
+
+export function createGameRecord(
+  history: GameHistory,
+  computerPlayers: [ComputerLevel | null, ComputerLevel | null],
+  finishedAt: number = Date.now()
+): GameRecord {
+  return {
+    history,
+    playerNames: history.playerNames,
+    finalScores: history.finalScores ?? [0, 0],
+    finishedAt,
+    durationMs: history.startedAt !== undefined ? finishedAt - history.startedAt : null,
+    computerPlayers: [...computerPlayers],
+  };
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(GAMES_STORE)) {
+        db.createObjectStore(GAMES_STORE, { keyPath: 'id', autoIncrement: true });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Run a single request against the games store and close the connection when done
+async function withGamesStore<T>(
+  mode: IDBTransactionMode,
+  body: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(GAMES_STORE, mode);
+      const request = body(transaction.objectStore(GAMES_STORE));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export async function saveGameRecord(record: GameRecord): Promise<number> {
+  const key = await withGamesStore('readwrite', store => store.add(record));
+  return key as number;
+}
+
+/**
+ * List all stored games, most recently finished first.
+ * Histories are upgraded to the current schema; records that fail validation are skipped.
+ */
+export async function listGameRecords(): Promise<GameRecord[]> {
+  const records = await withGamesStore<GameRecord[]>('readonly', store => store.getAll());
+  const valid: GameRecord[] = [];
+  for (const record of records) {
+    const migrated = migrateHistory(record.history);
+    if (migrated.success) {
+      valid.push({ ...record, history: migrated.history });
+    } else {
+      console.error(`Skipping stored game ${record.id}:`, migrated.error);
+    }
+  }
+  return valid.sort((a, b) => b.finishedAt - a.finishedAt);
+}
+
+export async function deleteGameRecord(id: number): Promise<void> {
+  await withGamesStore('readwrite', store => store.delete(id));
+}
+
+/**
+ * Case-insensitive match of either player's name against a filter string.
+ */
+export function filterGameRecords(records: GameRecord[], playerFilter: string): GameRecord[] {
+  const needle = playerFilter.trim().toLowerCase();
+  if (needle === '') return records;
+  return records.filter(record =>
+    record.playerNames.some(name => name.toLowerCase().includes(needle))
+  );
+}
@@ -1,36 +1,33 @@
-import type { BoardSize, GameState, LeatherPatchOnTrack, Patch, Player, Shape } from './types';
-import { createLeatherPatch, getLeatherPatchPositions, PATCH_DEFINITIONS } from './patches';
+import type { BoardSize, GameState, LeatherPatchOnTrack, NeutralTokenStart, Patch, Player, RuleSet, Shape } from './types';
+import { createLeatherPatch, PATCH_DEFINITIONS } from './patches';
+import { getVariantPatches } from './variants';
+import { STANDARD_RULES } from './rules';
 import { getOpponentIndex } from './player-utils';
-import { getTransformedShape } from './shape-utils';
 import { generateSeed, shuffleWithSeed, type GameSeed } from './history';
 
-export interface MoveResult {
-  crossedLeatherPositions: number[];
-}
-
-const STARTING_BUTTONS = 5;
-
 export interface CreateGameResult {
   state: GameState;
   seed: GameSeed;
+  patchOrder: number[];  // Market patch ids in shuffled order, recorded in the game history
 }
 
 export function createGameState(
   boardSize: BoardSize,
   playerNames: [string, string],
   firstPlayerIndex: 0 | 1 = 0,
-  seed?: GameSeed
+  rules: RuleSet = STANDARD_RULES,
+  seed?: GameSeed,
+  patchOrder?: number[]
 ): CreateGameResult {
-  const timeTrackLength = getTimeTrackLength(boardSize);
-  const incomePositions = getIncomePositions(boardSize);
-  const leatherPositions = getLeatherPatchPositions(boardSize);
-
   // Use provided seed or generate a new one
   const actualSeed = seed ?? generateSeed();
-  const patches = shuffleWithSeed([...PATCH_DEFINITIONS], actualSeed);
+  // A recorded patch order takes precedence so old games survive patch catalog changes
+  const patches = patchOrder
+    ? patchOrder.map(id => PATCH_DEFINITIONS.find(patch => patch.id === id)!)
+    : arrangePatchCircle(getVariantPatches(boardSize), rules.neutralTokenStart, actualSeed);
 
   // Initialize leather patches on time track
-  const leatherPatches: LeatherPatchOnTrack[] = leatherPositions.map((pos, idx) => ({
+  const leatherPatches: LeatherPatchOnTrack[] = rules.leatherPatchPositions.map((pos, idx) => ({
     position: pos,
     collected: false,
     patchId: -(idx + 1),  // Negative IDs: -1, -2, -3, -4, -5
@@ -40,29 +37,43 @@ export function createGameState(
     state: {
       boardSize,
       players: [
-        createPlayer(playerNames[0], boardSize),
-        createPlayer(playerNames[1], boardSize),
+        createPlayer(playerNames[0], boardSize, rules.startingButtons),
+        createPlayer(playerNames[1], boardSize, rules.startingButtons),
       ],
       patches,
       marketPosition: 0,
-      timeTrackLength,
-      incomePositions,
+      timeTrackLength: rules.timeTrackLength,
+      incomePositions: [...rules.incomePositions],
       leatherPatches,
       firstPlayerIndex,
+      lastArrivedPlayerIndex: null,
+      finishOrder: [],
       bonus7x7Claimed: false,
+      rules,
     },
     seed: actualSeed,
+    patchOrder: patches.map(patch => patch.id),
   };
 }
 
-function createPlayer(name: string, boardSize: BoardSize): Player {
+// Lay out the patch circle from the seed. The market starts at index 0, so under the official
+// setup the smallest patch goes last and the neutral token sits right after it
+function arrangePatchCircle(patches: Patch[], start: NeutralTokenStart, seed: GameSeed): Patch[] {
+  if (start === 'random') return shuffleWithSeed(patches, seed);
+
+  const cellCount = (patch: Patch) => patch.shape.flat().filter(cell => cell === 1).length;
+  const smallest = patches.reduce((best, patch) => cellCount(patch) < cellCount(best) ? patch : best);
+  return [...shuffleWithSeed(patches.filter(patch => patch !== smallest), seed), smallest];
+}
+
+function createPlayer(name: string, boardSize: BoardSize, startingButtons: number): Player {
   const board: (number | null)[][] = [];
   for (let i = 0; i < boardSize; i++) {
     board.push(new Array(boardSize).fill(null));
   }
   return {
     name,
-    buttons: STARTING_BUTTONS,
+    buttons: startingButtons,
     income: 0,
     position: 0,
     board,
@@ -71,39 +82,6 @@ function createPlayer(name: string, boardSize: BoardSize): Player {
   };
 }
 
-function getTimeTrackLength(_boardSize: BoardSize): number {
-  return 53;
-}
-
-function getIncomePositions(_boardSize: BoardSize): number[] {
-  return [5, 11, 17, 23, 29, 35, 41, 47, 53];
-}
-
-function movePlayer(state: GameState, playerIndex: 0 | 1, spaces: number): MoveResult {
-  const player = state.players[playerIndex];
-  const oldPosition = player.position;
-  const newPosition = Math.min(oldPosition + spaces, state.timeTrackLength);
-
-  // Check for income checkpoints crossed (triggered when landing on or passing through)
-  const checkpointsCrossed = state.incomePositions.filter(
-    pos => oldPosition < pos && newPosition >= pos
-  );
-
-  // Collect income for each checkpoint
-  player.buttons += checkpointsCrossed.length * player.income;
-
-  // Check for leather patches crossed (uncollected only)
-  const crossedLeatherPositions = state.leatherPatches
-    .filter(lp => !lp.collected && oldPosition < lp.position && newPosition >= lp.position)
-    .map(lp => lp.position);
-
-  // Update position
-  player.position = newPosition;
-
-  return { crossedLeatherPositions };
-}
-
-
 export function getCurrentPlayerIndex(state: GameState): 0 | 1 {
   // Player furthest behind goes next
   if (state.players[0].position < state.players[1].position) {
@@ -112,7 +90,10 @@ export function getCurrentPlayerIndex(state: GameState): 0 | 1 {
   if (state.players[1].position < state.players[0].position) {
     return 1;
   }
-  // Tied - use firstPlayerIndex preference
+  // Tied - the token on top of the stack moves first, unless ties always go to the first player
+  if (state.rules.trackTieOrder === 'stacking' && state.lastArrivedPlayerIndex !== null) {
+    return state.lastArrivedPlayerIndex;
+  }
   return state.firstPlayerIndex;
 }
 
@@ -122,7 +103,7 @@ export function getCurrentPlayer(state: GameState): Player {
 
 export function getAvailablePatches(state: GameState): Patch[] {
   const available: Patch[] = [];
-  const maxPatches = Math.min(3, state.patches.length);
+  const maxPatches = Math.min(state.rules.marketSize, state.patches.length);
   for (let i = 0; i < maxPatches; i++) {
     const index = (state.marketPosition + i) % state.patches.length;
     if (state.patches[index]) {
@@ -177,104 +158,11 @@ export function canPlacePatch(
   return true;
 }
 
-export function placePatchOnBoard(
-  player: Player,
-  patch: Patch,
-  x: number,
-  y: number,
-  rotation: number,
-  reflected: boolean
-): void {
-  const shape = getTransformedShape(patch.shape, rotation, reflected);
-
-  for (let row = 0; row < shape.length; row++) {
-    for (let col = 0; col < shape[row].length; col++) {
-      if (shape[row][col]) {
-        player.board[y + row][x + col] = patch.id;
-      }
-    }
-  }
-
-  player.placedPatches.push({ patch, x, y, rotation, reflected });
-}
-
-export interface BuyPatchResult {
-  success: boolean;
-  crossedLeatherPositions: number[];
-}
-
-export function buyPatch(
-  state: GameState,
-  patchIndex: number,
-  x: number,
-  y: number,
-  rotation: number,
-  reflected: boolean
-): BuyPatchResult {
-  const patches = getAvailablePatches(state);
-  const patch = patches[patchIndex];
-  if (!patch) return { success: false, crossedLeatherPositions: [] };
-
-  const playerIndex = getCurrentPlayerIndex(state);
-  const player = state.players[playerIndex];
-
-  if (player.buttons < patch.buttonCost) return { success: false, crossedLeatherPositions: [] };
-
-  const shape = getTransformedShape(patch.shape, rotation, reflected);
-  if (!canPlacePatch(player.board, shape, x, y)) return { success: false, crossedLeatherPositions: [] };
-
-  // Deduct buttons
-  player.buttons -= patch.buttonCost;
-
-  // Add income
-  player.income += patch.buttonIncome;
-
-  // Advance on time track (handles income collection)
-  const moveResult = movePlayer(state, playerIndex, patch.timeCost);
-
-  // Place patch on board
-  placePatchOnBoard(player, patch, x, y, rotation, reflected);
-
-  // Remove patch from market and move token to where bought patch was
-  const actualIndex = (state.marketPosition + patchIndex) % state.patches.length;
-  state.patches.splice(actualIndex, 1);
-
-  // Token moves to where the bought patch was (now points to next patch in circle)
-  if (state.patches.length > 0) {
-    state.marketPosition = actualIndex % state.patches.length;
-  }
-
-  return { success: true, crossedLeatherPositions: moveResult.crossedLeatherPositions };
-}
-
-export interface SkipResult {
-  crossedLeatherPositions: number[];
-}
-
-export function skipAhead(state: GameState): SkipResult {
-  const playerIndex = getCurrentPlayerIndex(state);
-  const player = state.players[playerIndex];
-  const opponent = state.players[getOpponentIndex(playerIndex)];
-
-  // Move just ahead of opponent
-  const spacesToMove = opponent.position - player.position + 1;
-
-  if (spacesToMove > 0) {
-    // Earn buttons equal to spaces moved
-    player.buttons += spacesToMove;
-    // Advance on time track (handles income collection)
-    const moveResult = movePlayer(state, playerIndex, spacesToMove);
-    return { crossedLeatherPositions: moveResult.crossedLeatherPositions };
-  }
-
-  return { crossedLeatherPositions: [] };
-}
-
 export function isGameOver(state: GameState): boolean {
   return state.players.every(p => p.position >= state.timeTrackLength);
 }
 
-export function calculateScore(player: Player): number {
+export function calculateScore(player: Player, rules: RuleSet): number {
   const boardSize = player.board.length;
   let emptySpaces = 0;
 
@@ -286,18 +174,18 @@ export function calculateScore(player: Player): number {
     }
   }
 
-  const bonus7x7Points = player.bonus7x7Area !== null ? 7 : 0;
-  return player.buttons - (emptySpaces * 2) + bonus7x7Points;
+  const bonus7x7Points = player.bonus7x7Area !== null ? rules.bonus7x7Points : 0;
+  return player.buttons - (emptySpaces * rules.emptyCellPenalty) + bonus7x7Points;
 }
 
-export function find7x7FilledArea(board: (number | null)[][]): { x: number; y: number } | null {
+export function findFilledSquare(board: (number | null)[][], squareSize: number): { x: number; y: number } | null {
   const boardSize = board.length;
-  // Iterate all possible 7x7 starting positions
-  for (let y = 0; y <= boardSize - 7; y++) {
-    for (let x = 0; x <= boardSize - 7; x++) {
+  // Iterate all possible starting positions of the square
+  for (let y = 0; y <= boardSize - squareSize; y++) {
+    for (let x = 0; x <= boardSize - squareSize; x++) {
       let allFilled = true;
-      outer: for (let dy = 0; dy < 7; dy++) {
-        for (let dx = 0; dx < 7; dx++) {
+      outer: for (let dy = 0; dy < squareSize; dy++) {
+        for (let dx = 0; dx < squareSize; dx++) {
           if (board[y + dy][x + dx] === null) {
             allFilled = false;
             break outer;
@@ -312,32 +200,27 @@ export function find7x7FilledArea(board: (number | null)[][]): { x: number; y: n
   return null;
 }
 
-export function check7x7Bonus(state: GameState, playerIndex: 0 | 1): boolean {
-  if (state.bonus7x7Claimed) {
-    return false;
-  }
-
-  const player = state.players[playerIndex];
-  const area = find7x7FilledArea(player.board);
-
-  if (area !== null) {
-    player.bonus7x7Area = area;
-    state.bonus7x7Claimed = true;
-    return true;
-  }
-
-  return false;
-}
-
 export function getWinner(state: GameState): 0 | 1 | 'tie' {
-  const score0 = calculateScore(state.players[0]);
-  const score1 = calculateScore(state.players[1]);
+  const score0 = calculateScore(state.players[0], state.rules);
+  const score1 = calculateScore(state.players[1], state.rules);
 
   if (score0 > score1) return 0;
   if (score1 > score0) return 1;
+  // Equal scores go to the player who reached the final space first, unless ties stand
+  if (state.rules.scoreTieBreak === 'finishedFirst' && state.finishOrder.length > 0) {
+    return state.finishOrder[0];
+  }
   return 'tie';
 }
 
+/**
+ * True when the scores are level and the winner was decided by finishing first.
+ */
+export function isTieBreakWin(state: GameState): boolean {
+  return getWinner(state) !== 'tie' &&
+    calculateScore(state.players[0], state.rules) === calculateScore(state.players[1], state.rules);
+}
+
 export function getNextIncomeDistance(state: GameState, playerIndex: 0 | 1): number | null {
   const player = state.players[playerIndex];
   const nextCheckpoint = state.incomePositions.find(pos => pos > player.position);
@@ -352,38 +235,35 @@ export function getOvertakeDistance(state: GameState): number {
   return opponent.position - currentPlayer.position + 1;
 }
 
-export function collectLeatherPatch(state: GameState, trackPosition: number): Patch | null {
+export function getUncollectedLeatherPatch(state: GameState, trackPosition: number): Patch | null {
   const leatherPatch = state.leatherPatches.find(
     lp => lp.position === trackPosition && !lp.collected
   );
-
   if (!leatherPatch) return null;
-
-  // Mark as collected
-  leatherPatch.collected = true;
-
-  // Return the patch object for placement
   return createLeatherPatch(leatherPatch.patchId);
 }
 
-export function placeLeatherPatch(
-  state: GameState,
-  patch: Patch,
-  x: number,
-  y: number,
-  rotation: number,
-  reflected: boolean
-): boolean {
-  const playerIndex = getCurrentPlayerIndex(state);
-  const player = state.players[playerIndex];
-
-  const shape = getTransformedShape(patch.shape, rotation, reflected);
-  if (!canPlacePatch(player.board, shape, x, y)) return false;
-
-  // No button cost, no time cost, no income - just place on board
-  placePatchOnBoard(player, patch, x, y, rotation, reflected);
+/**
+ * Deep copy a game state. Patch objects are shared since they are never mutated.
+ */
+export function cloneGameState(state: GameState): GameState {
+  return {
+    ...state,
+    players: [clonePlayer(state.players[0]), clonePlayer(state.players[1])],
+    patches: [...state.patches],
+    incomePositions: [...state.incomePositions],
+    leatherPatches: state.leatherPatches.map(lp => ({ ...lp })),
+    finishOrder: [...state.finishOrder],
+  };
+}
 
-  return true;
+function clonePlayer(player: Player): Player {
+  return {
+    ...player,
+    board: player.board.map(row => [...row]),
+    placedPatches: [...player.placedPatches],
+    bonus7x7Area: player.bonus7x7Area ? { ...player.bonus7x7Area } : null,
+  };
 }
 
 // Test helper functions for admin test screen
@@ -472,6 +352,7 @@ export function createTestGameOver(playerNames: [string, string], firstPlayerInd
   // Both players at end of track
   player1.position = state.timeTrackLength;
   player2.position = state.timeTrackLength;
+  state.finishOrder = [0, 1];
 
   // Give different scores for testing
   player1.buttons = 15;
@@ -0,0 +1,224 @@
+import { CURRENT_HISTORY_VERSION, shuffleWithSeed, type GameHistory } from './history';
+import { getPatchFingerprint, PATCH_DEFINITIONS } from './patches';
+import { validateRuleSet } from './rules';
+import { isBoardSize } from './variants';
+
+/**
+ * Versioned GameHistory schema. Stored, shared and imported histories go through
+ * migrateHistory(), which validates the input against the schema of its own version
+ * and then upgrades it one version at a time to CURRENT_HISTORY_VERSION.
+ *
+ * Version history:
+ *   1: seed, player names, first player, board size, actions, optional scores and start time
+ *   2: adds patchOrder, the shuffled market as patch ids, so games keep replaying
+ *      after the patch catalog changes
+ *   3: leather patch actions may have a null placement, recording a forfeited patch
+ *   4: adds rules, the RuleSet the game was played with, and allows the 7x7 Express board
+ *   5: adds rules.trackTieOrder, rules.scoreTieBreak and rules.neutralTokenStart,
+ *      optional hintsUsed, the hints each player asked for, and optional patchFingerprint,
+ *      a hash of the patchOrder patches as they were defined; a history whose patches have
+ *      changed since under the same ids is refused rather than replayed as another game
+ */
+
+export type MigrateHistoryResult =
+  | { success: true; history: GameHistory }
+  | { success: false; error: string };
+
+type RawHistory = Record<string, unknown>;
+
+// Each migration upgrades a valid history of version v to version v + 1
+type HistoryMigration = (history: RawHistory) => RawHistory;
+
+// Migrations that do more than fill in added rules; other versions only widen the schema
+const HISTORY_MIGRATIONS: Record<number, HistoryMigration> = {
+  1: migrateV1ToV2,
+  3: migrateV3ToV4,
+};
+
+// Rules added after version 4, with the values that reproduce how earlier versions played
+const RULES_ADDED_IN_VERSION: Record<number, Record<string, unknown>> = {
+  5: { trackTieOrder: 'firstPlayer', scoreTieBreak: 'tie', neutralTokenStart: 'random' },
+};
+
+// Version 1 shuffled the catalog as it stood then: patch ids 1-33 in definition order
+const V1_PATCH_COUNT = 33;
+
+/**
+ * Validate a history of any known version and upgrade it to the current schema.
+ */
+export function migrateHistory(value: unknown): MigrateHistoryResult {
+  if (!isRecord(value)) return { success: false, error: 'History is not an object' };
+
+  let history = value;
+  const version = history.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    return { success: false, error: 'History has no valid version' };
+  }
+  if (version > CURRENT_HISTORY_VERSION) {
+    return { success: false, error: `History version ${version} is newer than this app supports` };
+  }
+
+  for (let v = version; ; v++) {
+    const error = validateVersion(history, v);
+    if (error !== null) return { success: false, error: `Invalid version ${v} history: ${error}` };
+    if (v === CURRENT_HISTORY_VERSION) break;
+    history = migrateToNextVersion(history, v);
+  }
+
+  return { success: true, history: history as unknown as GameHistory };
+}
+
+function migrateToNextVersion(history: RawHistory, version: number): RawHistory {
+  const migrate = HISTORY_MIGRATIONS[version];
+  if (migrate) return migrate(history);
+
+  const addedRules = RULES_ADDED_IN_VERSION[version + 1];
+  if (!addedRules) return { ...history, version: version + 1 };
+  return {
+    ...history,
+    version: version + 1,
+    rules: { ...(history.rules as RawHistory), ...addedRules },
+  };
+}
+
+function migrateV1ToV2(history: RawHistory): RawHistory {
+  const catalogIds = Array.from({ length: V1_PATCH_COUNT }, (_, i) => i + 1);
+  return {
+    ...history,
+    version: 2,
+    patchOrder: shuffleWithSeed(catalogIds, history.seed as number),
+  };
+}
+
+// Versions before 4 were always played with these rules
+function migrateV3ToV4(history: RawHistory): RawHistory {
+  return {
+    ...history,
+    version: 4,
+    rules: {
+      startingButtons: 5,
+      timeTrackLength: 53,
+      incomePositions: [5, 11, 17, 23, 29, 35, 41, 47, 53],
+      leatherPatchPositions: [8, 18, 28, 38, 48],
+      marketSize: 3,
+      emptyCellPenalty: 2,
+      bonus7x7Points: 7,
+    },
+  };
+}
+
+// Returns an error message, or null when the history is valid for the given version
+function validateVersion(history: RawHistory, version: number): string | null {
+  if (history.version !== version) return 'wrong version';
+  // Rules come first, since the action checks read the market size from them
+  const rulesError = version >= 4 ? validateRules(history, version) : null;
+  return rulesError ??
+    validateCommonFields(history, version) ??
+    (version >= 2 ? validatePatchOrder(history, version) : null);
+}
+
+// Rules of a version 4+ history, checked with the rules added by later versions filled in
+function validateRules(history: RawHistory, version: number): string | null {
+  if (!isRecord(history.rules)) return 'rules missing';
+  const rules = { ...history.rules };
+  for (let v = CURRENT_HISTORY_VERSION; v > version; v--) {
+    const added = RULES_ADDED_IN_VERSION[v] ?? {};
+    for (const key of Object.keys(added)) {
+      if (key in rules) return `rules.${key} is not part of version ${version}`;
+    }
+    Object.assign(rules, added);
+  }
+  return validateRuleSet(rules);
+}
+
+function validatePatchOrder(history: RawHistory, version: number): string | null {
+  const patchOrder = history.patchOrder;
+  if (!Array.isArray(patchOrder) || patchOrder.length === 0) return 'missing patch order';
+  const seen = new Set<number>();
+  for (const id of patchOrder) {
+    if (!PATCH_DEFINITIONS.some(patch => patch.id === id)) return `unknown patch id ${id} in patch order`;
+    if (seen.has(id)) return `patch id ${id} appears twice in patch order`;
+    seen.add(id);
+  }
+
+  const fingerprint = history.patchFingerprint;
+  if (fingerprint === undefined) return null;
+  if (version < 5) return `patchFingerprint is not part of version ${version}`;
+  if (!isInteger(fingerprint) || fingerprint < 0 || fingerprint > 0xFFFFFFFF) return 'invalid patch fingerprint';
+  if (fingerprint !== getPatchFingerprint(patchOrder)) return 'its patches have changed since it was played';
+  return null;
+}
+
+// Fields shared by every version so far; action rules depend on the version
+function validateCommonFields(history: RawHistory, version: number): string | null {
+  const seed = history.seed;
+  if (!isInteger(seed) || seed < 0 || seed > 0xFFFFFFFF) return 'invalid seed';
+
+  const names = history.playerNames;
+  if (!Array.isArray(names) || names.length !== 2 || names.some(name => typeof name !== 'string')) {
+    return 'invalid player names';
+  }
+  if (history.firstPlayerIndex !== 0 && history.firstPlayerIndex !== 1) return 'invalid first player';
+  const boardSizeSupported = version >= 4 ? isBoardSize(history.boardSize) : history.boardSize === 9;
+  if (!boardSizeSupported) return 'unsupported board size';
+
+  if (!Array.isArray(history.actions)) return 'missing actions';
+  const marketSize = version >= 4 ? (history.rules as { marketSize: number }).marketSize : 3;
+  const allowForfeitedLeather = version >= 3;
+  for (let i = 0; i < history.actions.length; i++) {
+    const error = validateAction(history.actions[i], marketSize, allowForfeitedLeather);
+    if (error !== null) return `action ${i + 1}: ${error}`;
+  }
+
+  const scores = history.finalScores;
+  if (scores !== undefined && (!Array.isArray(scores) || scores.length !== 2 || !scores.every(isInteger))) {
+    return 'invalid final scores';
+  }
+  const hints = history.hintsUsed;
+  if (hints !== undefined) {
+    if (version < 5) return `hintsUsed is not part of version ${version}`;
+    if (!Array.isArray(hints) || hints.length !== 2 || !hints.every(count => isInteger(count) && count >= 0)) {
+      return 'invalid hint counts';
+    }
+  }
+  if (history.startedAt !== undefined && typeof history.startedAt !== 'number') return 'invalid start time';
+  return null;
+}
+
+function validateAction(action: unknown, marketSize: number, allowForfeitedLeather: boolean): string | null {
+  if (!isRecord(action)) return 'not an object';
+  if (action.playerIndex !== 0 && action.playerIndex !== 1) return 'invalid player';
+
+  switch (action.type) {
+    case 'buyPatch':
+      if (!isInteger(action.patchIndex) || action.patchIndex < 0 || action.patchIndex >= marketSize) return 'invalid market slot';
+      if (!isInteger(action.patchId)) return 'invalid patch id';
+      return validatePlacement(action.placement);
+    case 'skip':
+      if (!isInteger(action.spacesSkipped) || action.spacesSkipped < 1) return 'invalid spaces skipped';
+      return null;
+    case 'leatherPatch':
+      if (!isInteger(action.trackPosition)) return 'invalid track position';
+      if (action.placement === null && allowForfeitedLeather) return null;
+      return validatePlacement(action.placement);
+    default:
+      return 'unknown action type';
+  }
+}
+
+function validatePlacement(placement: unknown): string | null {
+  if (!isRecord(placement)) return 'missing placement';
+  const { x, y, rotation, reflected } = placement;
+  if (!isInteger(x) || !isInteger(y) || x < 0 || y < 0) return 'invalid placement position';
+  if (!isInteger(rotation) || rotation < 0 || rotation > 3) return 'invalid rotation';
+  if (typeof reflected !== 'boolean') return 'invalid reflection';
+  return null;
+}
+
+function isRecord(value: unknown): value is RawHistory {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value);
+}
@@ -1,4 +1,5 @@
-import type { BoardSize } from './types';
+import type { BoardSize, GameState, RuleSet } from './types';
+import { getPatchFingerprint } from './patches';
 
 // Seed for deterministic replay
 export type GameSeed = number;
@@ -30,25 +31,43 @@ export interface LeatherPatchAction {
   type: 'leatherPatch';
   playerIndex: 0 | 1;
   trackPosition: number;
-  placement: PlacementInfo;
+  placement: PlacementInfo | null;  // Null when the patch was forfeited because it fit nowhere
 }
 
 export type GameAction = BuyPatchAction | SkipAction | LeatherPatchAction;
 
+// Schema version written by this build; older versions are upgraded by history-schema.ts
+export const CURRENT_HISTORY_VERSION = 5;
+
 // Complete game history
 export interface GameHistory {
   version: number;
   seed: GameSeed;
+  patchOrder: number[];  // Market patch ids in starting order, so replays don't depend on the catalog
+  patchFingerprint?: number;  // getPatchFingerprint of patchOrder when played (version 5+, missing in older histories)
   playerNames: [string, string];
   firstPlayerIndex: 0 | 1;
   boardSize: BoardSize;
+  rules: RuleSet;
   actions: GameAction[];
   finalScores?: [number, number];
+  hintsUsed?: [number, number];  // Hints each player asked for (version 5+, missing when none were)
+  startedAt?: number;  // Epoch ms when the game started (missing in older histories)
+}
+
+// Game state at the start of a turn (a buy or skip plus the leather patches it triggered)
+export interface TurnSnapshot {
+  actionIndex: number;  // Index in history.actions of the turn's first action
+  playerIndex: 0 | 1;
+  state: GameState;     // States are immutable, so this is shared rather than copied
 }
 
-// Manager holds history
+// Manager holds history plus undo/redo bookkeeping
 export interface HistoryManager {
   history: GameHistory;
+  turnSnapshots: TurnSnapshot[];
+  redoTurns: GameAction[][];  // Undone turns, most recently undone last
+  lockedTurns: number;        // Turns the opponent has acted after (not undoable when undo is limited)
 }
 
 // Seeded PRNG (mulberry32 implementation)
@@ -81,23 +100,45 @@ export function createHistoryManager(
   seed: GameSeed,
   playerNames: [string, string],
   firstPlayerIndex: 0 | 1,
-  boardSize: BoardSize
+  boardSize: BoardSize,
+  rules: RuleSet,
+  patchOrder: number[]
 ): HistoryManager {
   return {
     history: {
-      version: 1,
+      version: CURRENT_HISTORY_VERSION,
       seed,
+      patchOrder,
+      patchFingerprint: getPatchFingerprint(patchOrder),
       playerNames,
       firstPlayerIndex,
       boardSize,
+      rules,
       actions: [],
+      startedAt: Date.now(),
     },
+    turnSnapshots: [],
+    redoTurns: [],
+    lockedTurns: 0,
   };
 }
 
-// Record an action to history
-export function recordAction(manager: HistoryManager, action: GameAction): void {
+// Record an action to history, given the state it was applied to
+export function recordAction(manager: HistoryManager, action: GameAction, stateBefore: GameState): void {
+  if (action.type !== 'leatherPatch') {
+    const lastTurn = manager.turnSnapshots[manager.turnSnapshots.length - 1];
+    if (lastTurn && lastTurn.playerIndex !== action.playerIndex) {
+      // The other player has now acted, so earlier turns become locked
+      manager.lockedTurns = manager.turnSnapshots.length;
+    }
+    manager.turnSnapshots.push({
+      actionIndex: manager.history.actions.length,
+      playerIndex: action.playerIndex,
+      state: stateBefore,
+    });
+  }
   manager.history.actions.push(action);
+  manager.redoTurns = [];
 }
 
 // Finalize history with final scores
@@ -1,16 +1,49 @@
-import type { AppState, Patch, RenderContext, RenderResult, Shape } from './types';
-import { buyPatch, calculateScore, check7x7Bonus, collectLeatherPatch, createGameState, getAvailablePatches, getCurrentPlayerIndex, getOvertakeDistance, isGameOver, placeLeatherPatch, skipAhead, createTestGameWith1Patch, createTestGameWith2Patches, createTestGameNearIncome, createTestGameInfiniteMoney, createTestGameNearLeatherPatch, createTestGameNearLastIncome, createTestGameOver, canAffordAnyPatch } from './game';
+import type { AppState, GameEndTab, GameState, Patch, RenderContext, RenderResult, RuleSet, Screen, Shape } from './types';
+import { calculateScore, createGameState, getAvailablePatches, getCurrentPlayerIndex, getOvertakeDistance, getUncollectedLeatherPatch, isGameOver, createTestGameWith1Patch, createTestGameWith2Patches, createTestGameNearIncome, createTestGameInfiniteMoney, createTestGameNearLeatherPatch, createTestGameNearLastIncome, createTestGameOver } from './game';
 import { initInput } from './input';
 import { getTransformedShape } from './shape-utils';
 import { centerShapeOnCell, createRenderContext, getPlacementBoardLayout, render, resizeRenderContext, screenToCellCoords } from './renderer';
-import { loadPlayerNames, savePlayerNames, loadFirstPlayerPref, saveFirstPlayerPref, loadAutoSkipPref, saveAutoSkipPref, loadFaceToFaceModePref, saveFaceToFaceModePref, loadAnimationsDisabledPref, saveAnimationsDisabledPref } from './storage';
+import { loadPlayerNames, savePlayerNames, loadFirstPlayerPref, saveFirstPlayerPref, loadAutoSkipPref, saveAutoSkipPref, loadFaceToFaceModePref, saveFaceToFaceModePref, loadAnimationsDisabledPref, saveAnimationsDisabledPref, loadUndoOwnTurnOnlyPref, saveUndoOwnTurnOnlyPref, loadCoachingPref, saveCoachingPref, loadInProgressGame, saveInProgressGame, clearInProgressGame, loadHouseRules, saveHouseRules, loadBoardSizePref, saveBoardSizePref, loadComputerPlayersPref, saveComputerPlayersPref, type SavedGame } from './storage';
+import { getRulePresetName, RULE_CHOICES, RULE_LIMITS, RULE_PRESETS, validateRuleSet, type ChoiceRule, type NumericRule } from './rules';
+import { BOARD_SIZES, BOARD_VARIANTS } from './variants';
 import { PLACEMENT_ANIMATION_DURATION } from './animations';
-import { createHistoryManager, recordAction, finalizeHistory, type BuyPatchAction, type SkipAction, type LeatherPatchAction } from './history';
+import { createHistoryManager, generateSeed, recordAction, finalizeHistory, type BuyPatchAction, type GameAction, type GameHistory, type HistoryManager, type SkipAction, type LeatherPatchAction, type TurnSnapshot } from './history';
+import { applyAction, canBuyAnyPatch, canBuyPatch, createInitialState, getCrossedLeatherPositions, mustForfeitLeatherPatch, type ActionResult } from './engine';
+import { canRedo, canUndo, redoTurn, undoTurn } from './undo';
+import { chooseBestPlacement, chooseComputerAction } from './ai';
+import { COMPUTER_LEVEL_ORDER, COMPUTER_LEVELS, type SearchBudget, type TurnAction } from './mcts';
+import type { AnalysisRequest, SearchRequest, WorkerResponse } from './mcts-worker';
+import { decodeReplayCode, encodeReplayCode } from './replay-code';
+import { formatNotationError, parseNotation, serializeNotation } from './notation';
+import { analyzeGame, INACCURACY_LOSS, type GameAnalysis, type MoveAnalysis } from './analysis';
+import { describeDivergence, verifyHistory } from './verify';
+import { createGameRecord, deleteGameRecord, listGameRecords, saveGameRecord, type GameRecord } from './game-library';
+import { getActionIndexForTurn, getReplayTurnCount, initReplay, REPLAY_SPEEDS, REPLAY_STEP_MS, seekReplay, stepReplayBackward, stepReplayForward } from './replay';
 
 // Render state (managed outside AppState since it's renderer-specific)
 let renderContext: RenderContext;
 let lastRenderResult: RenderResult = { buttons: [], isScreenRotated: false };
 let lastTappedTrackPos: number | null = null;
+let computerMoveTimer: ReturnType<typeof setTimeout> | null = null;
+let searchWorker: Worker | null = null;
+let pendingSearch: PendingSearch | null = null;  // Search whose answer is still wanted
+let nextSearchId = 0;
+let analysisWorker: Worker | null = null;
+let nextAnalysisId = 0;
+const pendingAnalyses = new Map<number, PendingAnalysis>();  // Analysis jobs by request id
+let analyzingHistory: GameHistory | null = null;  // Finished game whose analysis is running
+let lastCoachedTurn: TurnSnapshot | null = null;
+
+interface PendingAnalysis {
+  onResult: (response: WorkerResponse) => void;
+  onError: () => void;
+}
+
+interface PendingSearch {
+  id: number;
+  state: GameState;  // State searched, for the heuristic fallback
+  onResult: (action: TurnAction) => void;
+}
 
 // TODO:  - Add non-color cues (patterns/overlays/edge styles) for patches and player identity to reduce
 //    reliance on color alone, especially on small screens.
@@ -28,35 +61,19 @@ let lastTappedTrackPos: number | null = null;
 // TURN HISTORY / REPLAY / UNDO SYSTEM
 // ============================================================================
 // The turn tracing system is implemented in history.ts and stats.ts.
+// All game actions go through applyAction() in engine.ts, both live and on replay.
 // Game actions are recorded during play and stats are displayed at game end.
 //
-// DEFERRED FEATURES:
-//
-// TODO: Undo feature
-//   - Single-step undo that restores the entire turn (buy/skip + triggered leather patches)
-//   - Store a TurnSnapshot (deep clone of game state) before each turn starts
-//   - On undo: restore from snapshot, truncate actions array, clear snapshot
-//   - UI: Add "Undo" button on game screen (visible only when undo is available)
-//   - Clear undo availability when turn changes to a different player
-//
-// TODO: Replay system
-//   - Playback recorded games step-by-step for screen recording/sharing
-//   - Add new screen 'replay' with playback controls (play/pause, step forward/back, speed)
-//   - ReplayState: { history, currentActionIndex, gameState, isPlaying, playbackSpeed }
-//   - initReplay(history): Initialize replay from a GameHistory
-//   - stepForward(): Execute next action, increment index
-//   - stepBackward(): Re-initialize game and replay up to currentIndex - 1
-//   - Render: Reuse existing board rendering with replay controls overlay
-//
-// TODO: localStorage persistence
-//   - Store completed game histories in localStorage (last N games)
-//   - Add "Recent Games" section to setup screen to view past replays
-//   - Auto-save in-progress game history for recovery on page reload
-//
-// TODO: Clipboard export
-//   - Add "Copy Replay" button on game end screen
-//   - Compact JSON format: { v, p (patchOrder), n (names), f (firstPlayer), b (boardSize), a (actions) }
-//   - Use navigator.clipboard.writeText() to copy to clipboard
+// Undo/redo of whole turns lives in undo.ts, using per-turn snapshots kept by the HistoryManager.
+// Replay playback lives in replay.ts, seeking from periodic keyframe snapshots.
+// The in-progress game is auto-saved to localStorage after every action and can be resumed from setup.
+// Finished games are stored in IndexedDB (game-library.ts) and browsed from the recent games screen.
+// Replays are shared as compact codes (replay-code.ts) in a #replay=<code> URL.
+// Games can also be copied and pasted as human-readable move notation (notation.ts).
+// Loaded histories are validated and upgraded to the current schema version by history-schema.ts.
+// verify.ts replays a history against the engine; resume and replay refuse histories that diverge.
+// Either seat can be played by the computer: MCTS (mcts.ts) searches turns in a Web Worker (mcts-worker.ts),
+// the heuristic in ai.ts places its leather patches, and every move goes through the same flows as a human's.
 // ============================================================================
 
 
@@ -72,37 +89,53 @@ const state: AppState = {
   gameState: null,
   placementState: null,
   dragState: null,
-  selectedBoardSize: 9,
+  selectedBoardSize: loadBoardSizePref(),
   playerNames: loadPlayerNames(),
+  computerPlayers: loadComputerPlayersPref(),
   firstPlayerIndex: loadFirstPlayerPref(),
   previewPlayerIdx: null,
   pendingLeatherPatches: [],
   placingLeatherPatch: null,
+  leatherPatchOwner: null,
   previewingOpponentBoard: false,
   confirmingSkip: false,
+  hint: null,
+  hintPending: false,
   autoSkipEnabled: loadAutoSkipPref(),
   toasts: [],
   faceToFaceMode: loadFaceToFaceModePref(),
   historyManager: null,
   gameEndTab: 'summary',
+  gameAnalysis: null,
   placementAnimationsEnabled: !loadAnimationsDisabledPref(),
   placementAnimation: null,
+  undoOwnTurnOnly: loadUndoOwnTurnOnlyPref(),
+  coachingEnabled: loadCoachingPref(),
+  replay: null,
+  resumableGame: loadInProgressGame(),
+  recentGames: null,
+  recentGamesFilter: '',
+  recentGamesPage: 0,
+  viewingLibraryGame: false,
+  houseRules: loadHouseRules(),
 };
 
 // Toast functions
 const TOAST_DURATION_MS = 2000;
+const LONG_TOAST_DURATION_MS = 4000;  // For messages worth reading in full
 
-export function showToast(message: string): void {
+export function showToast(message: string, durationMs: number = TOAST_DURATION_MS): void {
   state.toasts.push({
     message,
     createdAt: Date.now(),
+    durationMs,
   });
 }
 
 function clearExpiredToasts(): void {
   const now = Date.now();
   state.toasts = state.toasts.filter(
-    toast => now - toast.createdAt <= TOAST_DURATION_MS
+    toast => now - toast.createdAt <= toast.durationMs
   );
 }
 
@@ -116,6 +149,14 @@ export function editName(playerIdx: 0 | 1): void {
   }
 }
 
+export function toggleComputerPlayer(playerIdx: 0 | 1): void {
+  // Human, then each computer level in turn
+  const level = state.computerPlayers[playerIdx];
+  const nextIndex = level === null ? 0 : COMPUTER_LEVEL_ORDER.indexOf(level) + 1;
+  state.computerPlayers[playerIdx] = COMPUTER_LEVEL_ORDER[nextIndex] ?? null;
+  saveComputerPlayersPref(state.computerPlayers);
+}
+
 export function selectFirstPlayer(playerIdx: 0 | 1 | 'random'): void {
   state.firstPlayerIndex = playerIdx;
   saveFirstPlayerPref(playerIdx);
@@ -136,20 +177,132 @@ export function togglePlacementAnimations(): void {
   saveAnimationsDisabledPref(!state.placementAnimationsEnabled);
 }
 
+export function toggleUndoOwnTurnOnly(): void {
+  state.undoOwnTurnOnly = !state.undoOwnTurnOnly;
+  saveUndoOwnTurnOnlyPref(state.undoOwnTurnOnly);
+}
+
+export function toggleCoaching(): void {
+  state.coachingEnabled = !state.coachingEnabled;
+  saveCoachingPref(state.coachingEnabled);
+}
+
+export function cycleBoardSize(): void {
+  const index = BOARD_SIZES.indexOf(state.selectedBoardSize);
+  state.selectedBoardSize = BOARD_SIZES[(index + 1) % BOARD_SIZES.length];
+  saveBoardSizePref(state.selectedBoardSize);
+}
+
+// House rules apply to the standard board; other variants play with their own rules
+function getNewGameRules(): RuleSet {
+  return state.selectedBoardSize === 9 ? state.houseRules : BOARD_VARIANTS[state.selectedBoardSize].rules;
+}
+
 export function startGame(): void {
+  cancelSearch();
   const actualFirstPlayer = resolveFirstPlayer();
-  const { state: gameState, seed } = createGameState(state.selectedBoardSize, state.playerNames, actualFirstPlayer);
+  const rules = getNewGameRules();
+  const { state: gameState, seed, patchOrder } = createGameState(
+    state.selectedBoardSize,
+    state.playerNames,
+    actualFirstPlayer,
+    rules
+  );
   state.gameState = gameState;
   state.historyManager = createHistoryManager(
     seed,
     state.playerNames,
     actualFirstPlayer,
-    state.selectedBoardSize
+    state.selectedBoardSize,
+    rules,
+    patchOrder
   );
+  state.resumableGame = null;
+  autoSaveGame([], null);
   state.screen = 'game';
   checkGameEnd();  // Handle auto-skip if player can't afford anything
 }
 
+export function resumeGame(): void {
+  const saved = state.resumableGame;
+  if (!saved) return;
+  cancelSearch();
+  state.resumableGame = null;
+
+  const restored = restoreGame(saved.history);
+  if (!restored) {
+    clearInProgressGame();
+    showToast('Saved game could not be restored');
+    return;
+  }
+
+  state.gameState = restored.state;
+  state.historyManager = restored.manager;
+  state.computerPlayers = [...saved.computerPlayers];
+  skipCoachingOfPlayedTurns();
+  state.placementState = null;
+  state.dragState = null;
+  state.placingLeatherPatch = null;
+  state.screen = 'game';
+
+  if (saved.pendingLeatherPatches.length > 0 && saved.leatherPatchOwner !== null) {
+    state.pendingLeatherPatches = [...saved.pendingLeatherPatches];
+    state.leatherPatchOwner = saved.leatherPatchOwner;
+    processNextLeatherPatch();
+  } else {
+    checkGameEnd();
+  }
+}
+
+/**
+ * Rebuild the live game and its undo snapshots by replaying a history from its seed.
+ * Histories that fail verification are refused.
+ */
+function restoreGame(history: GameHistory): { state: GameState; manager: HistoryManager } | null {
+  const report = verifyHistory(history);
+  if (!report.valid) {
+    console.error('Cannot restore game:', describeDivergence(report));
+    return null;
+  }
+
+  const manager = createHistoryManager(
+    history.seed,
+    history.playerNames,
+    history.firstPlayerIndex,
+    history.boardSize,
+    history.rules,
+    history.patchOrder
+  );
+  let gameState = createInitialState(history);
+
+  for (const action of history.actions) {
+    const result = applyAction(gameState, action);
+    if (result.error !== null) {
+      console.error('Cannot restore saved game:', result.error);
+      return null;
+    }
+    recordAction(manager, action, gameState);
+    gameState = result.state;
+  }
+  manager.history.startedAt = history.startedAt;
+  manager.history.patchFingerprint = history.patchFingerprint;
+  manager.history.finalScores = history.finalScores;
+  manager.history.hintsUsed = history.hintsUsed;
+
+  return { state: gameState, manager };
+}
+
+function autoSaveGame(pendingLeatherPatches: number[], leatherPatchOwner: 0 | 1 | null): void {
+  if (!state.historyManager) return;
+  const saved: SavedGame = {
+    history: state.historyManager.history,
+    pendingLeatherPatches,
+    leatherPatchOwner: pendingLeatherPatches.length > 0 ? leatherPatchOwner : null,
+    computerPlayers: [...state.computerPlayers],
+  };
+  saveInProgressGame(saved);
+}
+
 // Admin test screen actions
 export function getIsAdminMode(): boolean {
   return isAdminMode();
@@ -206,12 +359,12 @@ export function loadTestGameOver(): void {
 
 // Game screen actions
 export function selectPatch(patchIndex: number, screenX: number, screenY: number): void {
-  if (state.gameState) {
+  if (state.gameState && !isComputerTurn()) {
     state.previewingOpponentBoard = false;
     state.confirmingSkip = false;
     const patches = getAvailablePatches(state.gameState);
     const patch = patches[patchIndex];
-    if (patch) {
+    if (patch && canBuyPatch(state.gameState, patchIndex)) {
       const layout = getPlacementBoardLayout(renderContext, state.gameState.boardSize);
       const { cellX, cellY } = screenToCellCoords(screenX, screenY, layout);
       const { x, y } = centerShapeOnCell(cellX, cellY, patch.shape);
@@ -223,6 +376,7 @@ export function selectPatch(patchIndex: number, screenX: number, screenY: number
         rotation: 0,
         reflected: false,
       };
+      cancelPendingHint();
       state.screen = 'placement';
 
       // Start drag immediately
@@ -237,7 +391,7 @@ export function selectPatch(patchIndex: number, screenX: number, screenY: number
 }
 
 export function skip(): void {
-  if (state.gameState) {
+  if (state.gameState && !isComputerTurn()) {
     state.previewingOpponentBoard = false;
 
     // Require confirmation before skipping
@@ -247,30 +401,92 @@ export function skip(): void {
     }
 
     state.confirmingSkip = false;
+    commitSkip();
+  }
+}
 
-    // Record action before state changes
-    const playerIndex = getCurrentPlayerIndex(state.gameState);
-    const spacesSkipped = getOvertakeDistance(state.gameState);
+function commitSkip(): void {
+  if (!state.gameState) return;
 
-    const result = skipAhead(state.gameState);
+  const action: SkipAction = {
+    type: 'skip',
+    playerIndex: getCurrentPlayerIndex(state.gameState),
+    spacesSkipped: getOvertakeDistance(state.gameState),
+  };
+  const result = dispatchAction(action);
+  if (!result) return;
 
-    // Record skip action
-    if (state.historyManager) {
-      const action: SkipAction = {
-        type: 'skip',
-        playerIndex,
-        spacesSkipped,
-      };
-      recordAction(state.historyManager, action);
-    }
+  const crossedLeatherPositions = getCrossedLeatherPositions(result.events);
+  if (crossedLeatherPositions.length > 0) {
+    state.pendingLeatherPatches = crossedLeatherPositions;
+    state.leatherPatchOwner = action.playerIndex;
+    processNextLeatherPatch();
+  } else {
+    checkGameEnd();
+  }
+}
 
-    if (result.crossedLeatherPositions.length > 0) {
-      state.pendingLeatherPatches = result.crossedLeatherPositions;
-      processNextLeatherPatch();
-    } else {
-      checkGameEnd();
-    }
+export function undo(): void {
+  if (!state.historyManager || state.screen !== 'game') return;
+  if (!canUndo(state.historyManager, state.undoOwnTurnOnly)) return;
+
+  cancelSearch();
+  let result = undoTurn(state.historyManager);
+  if (!result) return;
+
+  // Against the computer, step back to the human's last turn instead of letting it replay its move
+  while (state.computerPlayers[result.playerIndex] !== null &&
+         state.computerPlayers.includes(null) &&
+         canUndo(state.historyManager, state.undoOwnTurnOnly)) {
+    const earlier = undoTurn(state.historyManager);
+    if (!earlier) break;
+    result = earlier;
   }
+
+  state.gameState = result.state;
+  state.previewingOpponentBoard = false;
+  state.confirmingSkip = false;
+  autoSaveGame([], null);
+  showToast(`Undid ${result.state.players[result.playerIndex].name}'s turn`);
+}
+
+export function redo(): void {
+  if (!state.historyManager || !state.gameState || state.screen !== 'game') return;
+  if (!canRedo(state.historyManager)) return;
+
+  cancelSearch();
+  const result = redoTurn(state.historyManager, state.gameState);
+  if (!result) return;
+  skipCoachingOfPlayedTurns();
+
+  state.gameState = result.state;
+  state.previewingOpponentBoard = false;
+  state.confirmingSkip = false;
+  autoSaveGame([], null);
+  showToast(`Redid ${result.state.players[result.playerIndex].name}'s turn`);
+  checkGameEnd();
+}
+
+// A hint is the turn the medium computer would play, counted against the player who asked
+export function requestHint(): void {
+  if (!state.gameState || !state.historyManager || state.screen !== 'game') return;
+  if (isComputerTurn() || state.hint || state.hintPending) return;
+  state.previewingOpponentBoard = false;
+  state.confirmingSkip = false;
+
+  const history = state.historyManager.history;
+  history.hintsUsed ??= [0, 0];
+  history.hintsUsed[getCurrentPlayerIndex(state.gameState)]++;
+  autoSaveGame([], null);
+
+  const searched = state.gameState;
+  state.hintPending = true;
+  startSearch(searched, COMPUTER_LEVELS.medium.budget, action => {
+    state.hintPending = false;
+    if (state.gameState !== searched) return;  // The player moved on meanwhile
+    state.hint = action;
+    if (action.type === 'skip') showToast('Hint: skip ahead');
+  });
 }
 
 export function openMapView(): void {
@@ -278,6 +494,7 @@ export function openMapView(): void {
     state.previewingOpponentBoard = false;
     state.confirmingSkip = false;
     lastTappedTrackPos = null;
+    cancelPendingHint();
     state.screen = 'mapView';
   }
 }
@@ -303,7 +520,9 @@ export function cancelPlacement(): void {
 export function confirmPlacement(): void {
   if (state.gameState && state.placementState) {
     state.previewingOpponentBoard = false;
-    const playerIdx = getCurrentPlayerIndex(state.gameState);
+    const playerIdx = state.placingLeatherPatch && state.leatherPatchOwner !== null
+      ? state.leatherPatchOwner
+      : getCurrentPlayerIndex(state.gameState);
     if (state.placingLeatherPatch) {
       // Placing a leather patch (free, no market removal)
       // Find the track position for this leather patch
@@ -312,34 +531,18 @@ export function confirmPlacement(): void {
       );
       const trackPosition = leatherPatch?.position ?? 0;
 
-      const success = placeLeatherPatch(
-        state.gameState,
-        state.placingLeatherPatch,
-        state.placementState.x,
-        state.placementState.y,
-        state.placementState.rotation,
-        state.placementState.reflected
-      );
-      if (success) {
-        // Record leather patch action
-        if (state.historyManager) {
-          const action: LeatherPatchAction = {
-            type: 'leatherPatch',
-            playerIndex: playerIdx,
-            trackPosition,
-            placement: {
-              x: state.placementState.x,
-              y: state.placementState.y,
-              rotation: state.placementState.rotation,
-              reflected: state.placementState.reflected,
-            },
-          };
-          recordAction(state.historyManager, action);
-        }
-
-        // Check for 7x7 bonus after placing patch
-        check7x7Bonus(state.gameState, playerIdx);
-
+      const action: LeatherPatchAction = {
+        type: 'leatherPatch',
+        playerIndex: playerIdx,
+        trackPosition,
+        placement: {
+          x: state.placementState.x,
+          y: state.placementState.y,
+          rotation: state.placementState.rotation,
+          reflected: state.placementState.reflected,
+        },
+      };
+      if (dispatchAction(action)) {
         // Start animation if enabled
         if (state.placementAnimationsEnabled) {
           state.placementAnimation = {
@@ -370,34 +573,21 @@ export function confirmPlacement(): void {
       const patch = patches[state.placementState.patchIndex];
       const patchId = patch?.id ?? 0;
 
-      const result = buyPatch(
-        state.gameState,
-        state.placementState.patchIndex,
-        state.placementState.x,
-        state.placementState.y,
-        state.placementState.rotation,
-        state.placementState.reflected
-      );
-      if (result.success) {
-        // Record buy patch action
-        if (state.historyManager) {
-          const action: BuyPatchAction = {
-            type: 'buyPatch',
-            playerIndex: playerIdx,
-            patchIndex: state.placementState.patchIndex,
-            patchId,
-            placement: {
-              x: state.placementState.x,
-              y: state.placementState.y,
-              rotation: state.placementState.rotation,
-              reflected: state.placementState.reflected,
-            },
-          };
-          recordAction(state.historyManager, action);
-        }
-
-        // Check for 7x7 bonus after placing patch
-        check7x7Bonus(state.gameState, playerIdx);
+      const action: BuyPatchAction = {
+        type: 'buyPatch',
+        playerIndex: playerIdx,
+        patchIndex: state.placementState.patchIndex,
+        patchId,
+        placement: {
+          x: state.placementState.x,
+          y: state.placementState.y,
+          rotation: state.placementState.rotation,
+          reflected: state.placementState.reflected,
+        },
+      };
+      const result = dispatchAction(action);
+      if (result) {
+        const crossedLeatherPositions = getCrossedLeatherPositions(result.events);
 
         // Start animation if enabled
         if (state.placementAnimationsEnabled) {
@@ -413,7 +603,8 @@ export function confirmPlacement(): void {
             playerIndex: playerIdx,
           };
           // Store pending leather patches to process after animation
-          state.pendingLeatherPatches = result.crossedLeatherPositions;
+          state.pendingLeatherPatches = crossedLeatherPositions;
+          state.leatherPatchOwner = playerIdx;
           state.placementState = null;
           state.dragState = null;
           // Screen stays as 'placement' during animation
@@ -422,8 +613,9 @@ export function confirmPlacement(): void {
           state.placementState = null;
           state.dragState = null;
           // Queue leather patches for collection
-          if (result.crossedLeatherPositions.length > 0) {
-            state.pendingLeatherPatches = result.crossedLeatherPositions;
+          if (crossedLeatherPositions.length > 0) {
+            state.pendingLeatherPatches = crossedLeatherPositions;
+            state.leatherPatchOwner = playerIdx;
             processNextLeatherPatch();
           } else {
             state.screen = 'game';
@@ -473,23 +665,318 @@ export function reflect(): void {
   }
 }
 
+// House rules screen actions
+export function openHouseRules(): void {
+  state.screen = 'houseRules';
+}
+
+export function cycleRulePreset(delta: number): void {
+  const currentIndex = RULE_PRESETS.findIndex(p => p.name === getRulePresetName(state.houseRules));
+  // From custom rules, stepping forward lands on the first preset
+  const start = currentIndex === -1 ? (delta > 0 ? -1 : 0) : currentIndex;
+  const nextIndex = (start + delta + RULE_PRESETS.length) % RULE_PRESETS.length;
+  setHouseRules(RULE_PRESETS[nextIndex].rules);
+}
+
+export function adjustRule(key: NumericRule, delta: number): void {
+  const { min, max } = RULE_LIMITS[key];
+  const value = Math.max(min, Math.min(max, state.houseRules[key] + delta));
+  const rules = { ...state.houseRules, [key]: value };
+
+  // A shorter track drops checkpoints and leather patches that fall off its end
+  if (key === 'timeTrackLength') {
+    rules.incomePositions = rules.incomePositions.filter(pos => pos <= value);
+    rules.leatherPatchPositions = rules.leatherPatchPositions.filter(pos => pos <= value);
+  }
+  setHouseRules(rules);
+}
+
+export function editRulePositions(key: 'incomePositions' | 'leatherPatchPositions'): void {
+  const label = key === 'incomePositions' ? 'Income checkpoints' : 'Leather patch positions';
+  const input = prompt(`${label} (comma-separated track positions):`, state.houseRules[key].join(', '));
+  if (input === null) return;
+
+  const positions = input.split(',').map(part => part.trim()).filter(part => part !== '').map(Number);
+  setHouseRules({ ...state.houseRules, [key]: positions });
+}
+
+export function cycleRuleChoice(key: ChoiceRule): void {
+  const choices = RULE_CHOICES[key];
+  const index = choices.findIndex(choice => choice.value === state.houseRules[key]);
+  setHouseRules({ ...state.houseRules, [key]: choices[(index + 1) % choices.length].value });
+}
+
+function setHouseRules(rules: RuleSet): void {
+  const error = validateRuleSet(rules);
+  if (error !== null) {
+    showToast(`Invalid house rule: ${error}`);
+    return;
+  }
+  state.houseRules = rules;
+  saveHouseRules(rules);
+}
+
+// Recent games screen actions
+export function openRecentGames(): void {
+  state.recentGames = null;
+  state.recentGamesPage = 0;
+  state.screen = 'recentGames';
+  refreshRecentGames();
+}
+
+function refreshRecentGames(): void {
+  listGameRecords()
+    .then(records => {
+      state.recentGames = records;
+    })
+    .catch(e => {
+      console.error('Failed to load recent games:', e);
+      state.recentGames = [];
+      showToast('Could not load recent games');
+    });
+}
+
+export function setRecentGamesFilter(): void {
+  const filter = prompt('Filter by player name (empty for all):', state.recentGamesFilter);
+  if (filter !== null) {
+    state.recentGamesFilter = filter.trim().slice(0, 20);
+    state.recentGamesPage = 0;
+  }
+}
+
+export function changeRecentGamesPage(delta: number): void {
+  state.recentGamesPage = Math.max(0, state.recentGamesPage + delta);
+}
+
+export function deleteRecentGame(record: GameRecord): void {
+  if (record.id === undefined) return;
+  if (!confirm(`Delete ${record.playerNames[0]} vs ${record.playerNames[1]}?`)) return;
+
+  deleteGameRecord(record.id)
+    .then(() => refreshRecentGames())
+    .catch(e => {
+      console.error('Failed to delete game:', e);
+      showToast('Could not delete game');
+    });
+}
+
+export function openRecentGameReplay(record: GameRecord): void {
+  startReplay(record.history, 'recentGames');
+}
+
+export function openRecentGameSummary(record: GameRecord): void {
+  const restored = restoreGame(record.history);
+  if (!restored) {
+    showToast('This game cannot be replayed');
+    return;
+  }
+  state.gameState = restored.state;
+  state.historyManager = restored.manager;
+  state.viewingLibraryGame = true;
+  state.gameEndTab = 'summary';
+  state.gameAnalysis = null;
+  state.screen = 'gameEnd';
+}
+
 // Game end screen actions
 export function playAgain(): void {
+  if (state.viewingLibraryGame) {
+    // Back to the library instead of starting over
+    state.gameState = null;
+    state.historyManager = null;
+    state.viewingLibraryGame = false;
+    state.gameEndTab = 'summary';
+    state.gameAnalysis = null;
+    state.screen = 'recentGames';
+    return;
+  }
+
   state.gameState = null;
   state.placementState = null;
   state.pendingLeatherPatches = [];
   state.placingLeatherPatch = null;
+  state.leatherPatchOwner = null;
   state.historyManager = null;
   state.gameEndTab = 'summary';
+  state.gameAnalysis = null;
   state.screen = 'setup';
 }
 
-export function setGameEndTab(tab: 'summary' | 'charts'): void {
+export function setGameEndTab(tab: GameEndTab): void {
   state.gameEndTab = tab;
+  if (tab === 'analysis' && !state.gameAnalysis && state.historyManager) {
+    analyzeFinishedGame(state.historyManager.history);
+  }
+}
+
+// The analysis tab shows that it is computing until the worker answers
+function analyzeFinishedGame(history: GameHistory): void {
+  if (analyzingHistory === history) return;
+  analyzingHistory = history;
+  const showAnalysis = (analysis: GameAnalysis) => {
+    if (analyzingHistory === history) analyzingHistory = null;
+    // Dropped when the player has left this game meanwhile
+    if (state.historyManager?.history === history) state.gameAnalysis = analysis;
+  };
+  startAnalysis({ type: 'analyzeGame', id: ++nextAnalysisId, history }, response => {
+    if (response.type === 'analyzeGame') showAnalysis(response.analysis);
+  }, () => showAnalysis(analyzeGame(history)));
+}
+
+// Open the replay just before an analysed turn was played
+export function openAnalyzedTurn(move: MoveAnalysis): void {
+  if (!state.historyManager) return;
+  startReplay(state.historyManager.history, 'gameEnd');
+  if (state.replay) {
+    seekReplay(state.replay, move.actionIndex);
+  }
+}
+
+export function openReplay(): void {
+  if (!state.historyManager) return;
+  startReplay(state.historyManager.history, 'gameEnd');
+}
+
+// Open the replay viewer, refusing histories that fail verification
+function startReplay(history: GameHistory, returnScreen: Screen): void {
+  const report = verifyHistory(history);
+  if (!report.valid) {
+    showToast(`Cannot replay: ${describeDivergence(report)}`);
+    return;
+  }
+  cancelSearch();  // A shared replay link can open over a game in progress
+  state.replay = initReplay(history, returnScreen);
+  state.screen = 'replay';
+}
+
+export function copyReplayLink(): void {
+  if (!state.historyManager) return;
+  const code = encodeReplayCode(state.historyManager.history);
+  const url = `${window.location.origin}${window.location.pathname}#replay=${code}`;
+
+  const fallback = () => {
+    prompt('Copy this replay link:', url);
+  };
+  if (!navigator.clipboard) {
+    fallback();
+    return;
+  }
+  navigator.clipboard.writeText(url)
+    .then(() => showToast('Replay link copied'))
+    .catch(fallback);
+}
+
+// Notation is multi-line, so unlike replay links there is no prompt() fallback
+export function copyNotation(): void {
+  if (!state.historyManager) return;
+  if (!navigator.clipboard) {
+    showToast('Clipboard is not available');
+    return;
+  }
+  navigator.clipboard.writeText(serializeNotation(state.historyManager.history))
+    .then(() => showToast('Notation copied'))
+    .catch(() => showToast('Could not copy the notation'));
+}
+
+// Open a game pasted as notation in the replay viewer
+export function pasteNotation(): void {
+  if (!navigator.clipboard?.readText) {
+    showToast('Clipboard is not available');
+    return;
+  }
+  navigator.clipboard.readText()
+    .then(text => {
+      const result = parseNotation(text);
+      if (!result.success) {
+        showToast(formatNotationError(result.error), LONG_TOAST_DURATION_MS);
+        return;
+      }
+      startReplay(result.history, state.screen);
+    })
+    .catch(() => showToast('Could not read the clipboard'));
+}
+
+// Open a replay shared through a #replay=<code> URL
+function openReplayFromUrl(): void {
+  const match = window.location.hash.match(/^#replay=(.*)$/);
+  if (!match) return;
+
+  const result = decodeReplayCode(match[1]);
+  if (!result.success) {
+    showToast(`Invalid replay link: ${result.error}`);
+    return;
+  }
+  // Closing the replay goes back to whatever was open, including a game in progress
+  const returnScreen = state.replay ? state.replay.returnScreen : state.screen;
+  startReplay(result.history, returnScreen);
+}
+
+// Replay screen actions
+export function closeReplay(): void {
+  if (!state.replay) return;
+  state.screen = state.replay.returnScreen;
+  state.replay = null;
+}
+
+export function toggleReplayPlayback(): void {
+  if (!state.replay) return;
+  // Restart from the beginning when play is pressed at the end
+  if (!state.replay.isPlaying && state.replay.currentActionIndex >= state.replay.actionCount) {
+    seekReplay(state.replay, 0);
+  }
+  state.replay.isPlaying = !state.replay.isPlaying;
+  state.replay.lastStepTime = Date.now();
+}
+
+export function replayStepForward(): void {
+  if (!state.replay) return;
+  state.replay.isPlaying = false;
+  stepReplayForward(state.replay);
+}
+
+export function replayStepBackward(): void {
+  if (!state.replay) return;
+  state.replay.isPlaying = false;
+  stepReplayBackward(state.replay);
+}
+
+export function cycleReplaySpeed(): void {
+  if (!state.replay) return;
+  const idx = REPLAY_SPEEDS.indexOf(state.replay.playbackSpeed);
+  state.replay.playbackSpeed = REPLAY_SPEEDS[(idx + 1) % REPLAY_SPEEDS.length];
+}
+
+export function jumpToReplayTurn(): void {
+  if (!state.replay) return;
+  const turnCount = getReplayTurnCount(state.replay);
+  const input = prompt(`Jump to turn (0-${turnCount}):`);
+  if (input === null) return;
+
+  const turn = parseInt(input, 10);
+  if (isNaN(turn) || turn < 0 || turn > turnCount) {
+    showToast(`Turn must be between 0 and ${turnCount}`);
+    return;
+  }
+  state.replay.isPlaying = false;
+  seekReplay(state.replay, getActionIndexForTurn(state.replay, turn));
+}
+
+function updateReplayPlayback(): void {
+  const replay = state.replay;
+  if (!replay || !replay.isPlaying) return;
+
+  const now = Date.now();
+  if (now - replay.lastStepTime < REPLAY_STEP_MS / replay.playbackSpeed) return;
+
+  replay.lastStepTime = now;
+  if (!stepReplayForward(replay)) {
+    replay.isPlaying = false;
+  }
 }
 
 export function previewBoard(playerIdx: number): void {
   state.previewPlayerIdx = playerIdx;
+  cancelPendingHint();
   state.screen = 'boardPreview';
 }
 
@@ -673,10 +1160,39 @@ function getMaxNegativeY(): number {
   return 0;
 }
 
+/**
+ * Apply an action to the live game and record it in history.
+ * Returns null (and leaves the game untouched) if the action is illegal.
+ */
+function dispatchAction(action: GameAction): ActionResult | null {
+  if (!state.gameState) return null;
+
+  const result = applyAction(state.gameState, action);
+  if (result.error !== null) {
+    console.error('Rejected action:', result.error);
+    return null;
+  }
+
+  if (state.historyManager) {
+    recordAction(state.historyManager, action, state.gameState);
+  }
+  state.gameState = result.state;
+  state.hint = null;
+  cancelPendingHint();
+
+  // Leather patches still queued for this turn must survive a reload too
+  const pendingLeatherPatches = action.type === 'leatherPatch'
+    ? state.pendingLeatherPatches
+    : getCrossedLeatherPositions(result.events);
+  autoSaveGame(pendingLeatherPatches, action.playerIndex);
+  return result;
+}
+
 function processNextLeatherPatch(): void {
   if (!state.gameState) return;
 
   if (state.pendingLeatherPatches.length === 0) {
+    state.leatherPatchOwner = null;
     state.screen = 'game';
     checkGameEnd();
     return;
@@ -684,9 +1200,22 @@ function processNextLeatherPatch(): void {
 
   // Get next leather patch position
   const nextPosition = state.pendingLeatherPatches.shift()!;
-  const patch = collectLeatherPatch(state.gameState, nextPosition);
-
-  if (patch) {
+  const patch = getUncollectedLeatherPatch(state.gameState, nextPosition);
+  const owner = state.leatherPatchOwner ?? getCurrentPlayerIndex(state.gameState);
+
+  if (patch && mustForfeitLeatherPatch(state.gameState, owner, nextPosition)) {
+    // No empty spot for it anywhere on the board: the patch is forfeited
+    const action: LeatherPatchAction = {
+      type: 'leatherPatch',
+      playerIndex: owner,
+      trackPosition: nextPosition,
+      placement: null,
+    };
+    if (dispatchAction(action)) {
+      showToast(`No room for the leather patch - ${state.gameState.players[owner].name} forfeits it`);
+    }
+    processNextLeatherPatch();
+  } else if (patch) {
     // Set up placement screen for leather patch
     state.placingLeatherPatch = patch;
     state.placementState = {
@@ -705,47 +1234,36 @@ function processNextLeatherPatch(): void {
 
 function checkGameEnd(): void {
   if (!state.gameState) return;
+  scheduleCoaching();
 
   if (isGameOver(state.gameState)) {
-    // Finalize history with final scores
-    if (state.historyManager) {
-      const scores: [number, number] = [
-        calculateScore(state.gameState.players[0]),
-        calculateScore(state.gameState.players[1]),
-      ];
-      finalizeHistory(state.historyManager, scores);
-    }
-    state.screen = 'gameEnd';
+    endGame();
     return;
   }
 
-  // Auto-skip if enabled and current player can't afford any patches
+  // Auto-skip if enabled and current player can't buy any patch (none affordable fits)
   while (state.autoSkipEnabled &&
          state.gameState &&
          !isGameOver(state.gameState) &&
-         !canAffordAnyPatch(state.gameState)) {
-    // Record action before state changes
+         !canBuyAnyPatch(state.gameState)) {
     const playerIndex = getCurrentPlayerIndex(state.gameState);
-    const spacesSkipped = getOvertakeDistance(state.gameState);
 
     // Show toast for who is being skipped
     const skippedPlayer = state.gameState.players[playerIndex];
     showToast(`Auto-skipped ${skippedPlayer.name}`);
 
-    const result = skipAhead(state.gameState);
-
-    // Record skip action
-    if (state.historyManager) {
-      const action: SkipAction = {
-        type: 'skip',
-        playerIndex,
-        spacesSkipped,
-      };
-      recordAction(state.historyManager, action);
-    }
+    const action: SkipAction = {
+      type: 'skip',
+      playerIndex,
+      spacesSkipped: getOvertakeDistance(state.gameState),
+    };
+    const result = dispatchAction(action);
+    if (!result) return;
 
-    if (result.crossedLeatherPositions.length > 0) {
-      state.pendingLeatherPatches = result.crossedLeatherPositions;
+    const crossedLeatherPositions = getCrossedLeatherPositions(result.events);
+    if (crossedLeatherPositions.length > 0) {
+      state.pendingLeatherPatches = crossedLeatherPositions;
+      state.leatherPatchOwner = playerIndex;
       processNextLeatherPatch();
       return;  // Will continue auto-skipping after leather patch placement via checkGameEnd()
     }
@@ -753,15 +1271,7 @@ function checkGameEnd(): void {
 
   // Check for game end after auto-skips
   if (state.gameState && isGameOver(state.gameState)) {
-    // Finalize history with final scores
-    if (state.historyManager) {
-      const scores: [number, number] = [
-        calculateScore(state.gameState.players[0]),
-        calculateScore(state.gameState.players[1]),
-      ];
-      finalizeHistory(state.historyManager, scores);
-    }
-    state.screen = 'gameEnd';
+    endGame();
     return;
   }
 
@@ -772,6 +1282,72 @@ function checkGameEnd(): void {
   }
 }
 
+// Coaching looks at a human's turn once it is complete, leather patches included
+function scheduleCoaching(): void {
+  const manager = state.historyManager;
+  if (!state.coachingEnabled || !manager) return;
+  const lastTurn = manager.turnSnapshots[manager.turnSnapshots.length - 1];
+  if (!lastTurn || lastTurn === lastCoachedTurn || state.computerPlayers[lastTurn.playerIndex] !== null) return;
+  lastCoachedTurn = lastTurn;
+
+  // Evaluated in the analysis worker so the next turn starts without waiting on it
+  const request: AnalysisRequest = {
+    type: 'analyzeTurn',
+    id: ++nextAnalysisId,
+    state: lastTurn.state,
+    actions: manager.history.actions,
+    actionIndex: lastTurn.actionIndex,
+    turn: manager.turnSnapshots.length,
+  };
+  startAnalysis(request, response => {
+    if (response.type !== 'analyzeTurn' || !state.coachingEnabled) return;
+    // Dropped when the turn was undone or another game started meanwhile
+    if (state.historyManager !== manager || !manager.turnSnapshots.includes(lastTurn)) return;
+    if (response.move.scoreLoss >= INACCURACY_LOSS) {
+      showToast(describeCoaching(response.move), LONG_TOAST_DURATION_MS);
+    }
+  }, () => {});  // Coaching is skipped if the worker fails
+}
+
+// Resumed and redone turns were played before, so they are not coached again
+function skipCoachingOfPlayedTurns(): void {
+  const snapshots = state.historyManager?.turnSnapshots ?? [];
+  lastCoachedTurn = snapshots[snapshots.length - 1] ?? null;
+}
+
+function describeCoaching(move: MoveAnalysis): string {
+  const played = move.played.type === 'buyPatch' ? 'buy' : 'skip';
+  let better: string;
+  if (move.best.type === 'skip') {
+    better = 'skipping';
+  } else if (move.played.type === 'buyPatch' && move.best.patchIndex === move.played.patchIndex) {
+    better = 'another spot for this patch';
+  } else {
+    better = `slot ${move.best.patchIndex + 1}`;
+  }
+  return `This ${played} cost you ~${move.scoreLoss} points; better was ${better}`;
+}
+
+function endGame(): void {
+  if (!state.gameState) return;
+  cancelSearch();
+
+  // Finalize history with final scores
+  if (state.historyManager) {
+    const scores: [number, number] = [
+      calculateScore(state.gameState.players[0], state.gameState.rules),
+      calculateScore(state.gameState.players[1], state.gameState.rules),
+    ];
+    finalizeHistory(state.historyManager, scores);
+    state.gameAnalysis = null;
+    clearInProgressGame();
+    saveGameRecord(createGameRecord(state.historyManager.history, state.computerPlayers)).catch(e => {
+      console.error('Failed to save game to library:', e);
+    });
+  }
+  state.screen = 'gameEnd';
+}
+
 function checkPlacementAnimation(): void {
   if (!state.placementAnimation) return;
 
@@ -797,9 +1373,159 @@ function checkPlacementAnimation(): void {
   }
 }
 
+function isComputerTurn(): boolean {
+  return state.gameState !== null &&
+    !isGameOver(state.gameState) &&
+    state.computerPlayers[getCurrentPlayerIndex(state.gameState)] !== null;
+}
+
+// The computer moves when it is its turn on the game screen or its leather patch to place
+function isComputerToMove(): boolean {
+  if (!state.gameState || state.placementAnimation) return false;
+  if (state.screen === 'game') return isComputerTurn();
+  return state.screen === 'placement' &&
+    state.placingLeatherPatch !== null &&
+    state.leatherPatchOwner !== null &&
+    state.computerPlayers[state.leatherPatchOwner] !== null;
+}
+
+// Moves are delayed so the human can follow them
+const COMPUTER_MOVE_DELAY_MS = 700;
+
+function checkComputerTurn(): void {
+  if (computerMoveTimer !== null || pendingSearch !== null || !isComputerToMove()) return;
+  computerMoveTimer = setTimeout(playComputerMove, COMPUTER_MOVE_DELAY_MS);
+}
+
+// Leather patches and heuristic turns are played at once; searched turns run in the worker
+function playComputerMove(): void {
+  computerMoveTimer = null;
+  // Undo or leaving the game may have changed whose move it is since the timer was set
+  if (!state.gameState || !isComputerToMove()) return;
+
+  if (state.placingLeatherPatch && state.leatherPatchOwner !== null) {
+    const best = chooseBestPlacement(state.gameState, state.leatherPatchOwner, state.placingLeatherPatch);
+    if (!best) return;
+    state.previewingOpponentBoard = false;
+    state.placementState = { patchIndex: -1, ...best.placement };
+    confirmPlacement();
+    return;
+  }
+
+  const level = state.computerPlayers[getCurrentPlayerIndex(state.gameState)];
+  if (level === null) return;
+  const budget = COMPUTER_LEVELS[level].budget;
+  if (budget === null) {
+    playComputerTurn(chooseComputerAction(state.gameState));
+  } else {
+    startSearch(state.gameState, budget, playComputerTurn);
+  }
+}
+
+function startSearch(gameState: GameState, budget: SearchBudget, onResult: (action: TurnAction) => void): void {
+  searchWorker ??= createSearchWorker();
+  pendingSearch = { id: ++nextSearchId, state: gameState, onResult };
+  const request: SearchRequest = { type: 'search', id: pendingSearch.id, state: gameState, budget, seed: generateSeed() };
+  searchWorker.postMessage(request);
+}
+
+function createSearchWorker(): Worker {
+  const worker = new Worker(new URL('./mcts-worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+    const search = pendingSearch;
+    if (!search || event.data.type !== 'search' || event.data.id !== search.id) return;  // Cancelled while searching
+    pendingSearch = null;
+    search.onResult(event.data.action);
+  };
+  worker.onerror = (event: ErrorEvent) => {
+    console.error('Computer search failed:', event.message);
+    worker.terminate();
+    searchWorker = null;
+    const search = pendingSearch;
+    if (!search) return;
+    pendingSearch = null;
+    // Fall back to the heuristic player's choice
+    search.onResult(chooseComputerAction(search.state));
+  };
+  return worker;
+}
+
+/**
+ * Analysis runs in a worker of its own, so it neither waits behind a computer search nor
+ * is cancelled with one. Callers drop answers for a game that has changed meanwhile.
+ */
+function startAnalysis(request: AnalysisRequest, onResult: (response: WorkerResponse) => void, onError: () => void): void {
+  analysisWorker ??= createAnalysisWorker();
+  pendingAnalyses.set(request.id, { onResult, onError });
+  analysisWorker.postMessage(request);
+}
+
+function createAnalysisWorker(): Worker {
+  const worker = new Worker(new URL('./mcts-worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+    const pending = pendingAnalyses.get(event.data.id);
+    pendingAnalyses.delete(event.data.id);
+    pending?.onResult(event.data);
+  };
+  worker.onerror = (event: ErrorEvent) => {
+    console.error('Analysis failed:', event.message);
+    worker.terminate();
+    analysisWorker = null;
+    const failed = [...pendingAnalyses.values()];
+    pendingAnalyses.clear();
+    for (const pending of failed) pending.onError();
+  };
+  return worker;
+}
+
+/**
+ * Drop any computer move or hint in progress, on undo or when leaving the game. A running
+ * search cannot be interrupted, so its worker is terminated and a fresh one started next time.
+ */
+function cancelSearch(): void {
+  if (computerMoveTimer !== null) {
+    clearTimeout(computerMoveTimer);
+    computerMoveTimer = null;
+  }
+  if (pendingSearch !== null) {
+    searchWorker?.terminate();
+    searchWorker = null;
+    pendingSearch = null;
+  }
+  state.hint = null;
+  state.hintPending = false;
+}
+
+// A hint still searching is dropped once the player moves or leaves the game screen,
+// so the computer's reply does not wait on it
+function cancelPendingHint(): void {
+  if (state.hintPending) cancelSearch();
+}
+
+/**
+ * Play the computer's turn through the same placement and skip flows a human uses,
+ * so history, autosave and animations behave the same.
+ */
+function playComputerTurn(action: TurnAction): void {
+  // The human may have opened the map while the computer was thinking; it searches again on return
+  if (!state.gameState || !isComputerToMove()) return;
+  state.previewingOpponentBoard = false;
+  state.confirmingSkip = false;
+
+  if (action.type === 'skip') {
+    commitSkip();
+    return;
+  }
+  state.placementState = { patchIndex: action.patchIndex, ...action.placement };
+  state.screen = 'placement';
+  confirmPlacement();
+}
+
 function gameLoop(): void {
   clearExpiredToasts();
   checkPlacementAnimation();
+  checkComputerTurn();
+  updateReplayPlayback();
   lastRenderResult = render(renderContext, state, lastTappedTrackPos);
   requestAnimationFrame(gameLoop);
 }
@@ -815,6 +1541,8 @@ function init(): void {
   window.addEventListener('resize', () => {
     renderContext = resizeRenderContext(renderContext);
   });
+  window.addEventListener('hashchange', openReplayFromUrl);
+  openReplayFromUrl();
   initInput(
     canvas,
     state,
@@ -0,0 +1,77 @@
+import type { GameState } from './types';
+import type { GameAction, GameHistory } from './history';
+import { searchComputerAction, type SearchBudget, type TurnAction } from './mcts';
+import { analyzeGame, analyzeTurn, type GameAnalysis, type MoveAnalysis } from './analysis';
+
+/**
+ * Web Worker running the MCTS computer player and move analysis off the main thread, so
+ * the render loop keeps its frame rate while they run. One job per message, answered in
+ * order; a job cannot be interrupted, so the main thread cancels by terminating the worker.
+ */
+
+export interface SearchRequest {
+  type: 'search';
+  id: number;  // Echoed back so stale answers can be told apart
+  state: GameState;
+  budget: SearchBudget;
+  seed: number;
+}
+
+export interface GameAnalysisRequest {
+  type: 'analyzeGame';
+  id: number;
+  history: GameHistory;
+}
+
+export interface TurnAnalysisRequest {
+  type: 'analyzeTurn';
+  id: number;
+  state: GameState;  // Before the turn
+  actions: GameAction[];
+  actionIndex: number;
+  turn: number;
+}
+
+export type AnalysisRequest = GameAnalysisRequest | TurnAnalysisRequest;
+export type WorkerRequest = SearchRequest | AnalysisRequest;
+
+export interface SearchResponse {
+  type: 'search';
+  id: number;
+  action: TurnAction;
+}
+
+export interface GameAnalysisResponse {
+  type: 'analyzeGame';
+  id: number;
+  analysis: GameAnalysis;
+}
+
+export interface TurnAnalysisResponse {
+  type: 'analyzeTurn';
+  id: number;
+  move: MoveAnalysis;
+}
+
+export type WorkerResponse = SearchResponse | GameAnalysisResponse | TurnAnalysisResponse;
+
+const worker = self as unknown as Worker;
+
+worker.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  worker.postMessage(runJob(event.data));
+};
+
+function runJob(request: WorkerRequest): WorkerResponse {
+  switch (request.type) {
+    case 'search':
+      return { type: 'search', id: request.id, action: searchComputerAction(request.state, request.budget, request.seed) };
+    case 'analyzeGame':
+      return { type: 'analyzeGame', id: request.id, analysis: analyzeGame(request.history) };
+    case 'analyzeTurn':
+      return {
+        type: 'analyzeTurn',
+        id: request.id,
+        move: analyzeTurn(request.state, request.actions, request.actionIndex, request.turn),
+      };
+  }
+}
@@ -0,0 +1,207 @@
+import type { ComputerLevel, GameState, Patch } from './types';
+import { seededRandom, type BuyPatchAction, type PlacementInfo, type SkipAction } from './history';
+import { applyAction, canBuyPatch, getCrossedLeatherPositions, getLegalPlacements, mustForfeitLeatherPatch } from './engine';
+import { calculateScore, getAvailablePatches, getCurrentPlayerIndex, getOvertakeDistance, getUncollectedLeatherPatch, isGameOver } from './game';
+import { chooseBestPlacement, evaluatePurchase } from './ai';
+
+/**
+ * Monte Carlo tree search over whole turns. Each tree move is a buy from one market slot
+ * (placed where the heuristic player would put it) or a skip; leather patches crossed on
+ * the way are placed by the same heuristic. Leaves are scored by playing the game out with
+ * a cheap randomised greedy policy, using a seeded generator so a search is reproducible.
+ * The market order is part of the state, so playouts see exactly the patches to come.
+ */
+
+export type TurnAction = BuyPatchAction | SkipAction;
+
+// A search stops at whichever limit it reaches first
+export interface SearchBudget {
+  iterations: number;
+  timeMs: number;
+}
+
+// The heuristic level plays chooseComputerAction's pick without searching
+export const COMPUTER_LEVELS = {
+  heuristic: { label: 'Simple', budget: null },
+  easy: { label: 'Easy', budget: { iterations: 30, timeMs: 300 } },
+  medium: { label: 'Medium', budget: { iterations: 400, timeMs: 1500 } },
+  hard: { label: 'Hard', budget: { iterations: 4000, timeMs: 4000 } },
+} satisfies Record<ComputerLevel, { label: string; budget: SearchBudget | null }>;
+
+// Setup screen cycle order
+export const COMPUTER_LEVEL_ORDER: ComputerLevel[] = ['heuristic', 'easy', 'medium', 'hard'];
+
+export function isComputerLevel(value: unknown): value is ComputerLevel {
+  return COMPUTER_LEVEL_ORDER.includes(value as ComputerLevel);
+}
+
+const EXPLORATION = 0.7;         // UCT exploration constant for rewards in [0, 1]
+const SCORE_MARGIN_SCALE = 8;    // Final score margin that counts as a fairly clear win
+const PLAYOUT_RANDOM_MOVE = 0.25;  // Chance a playout turn ignores the greedy choice
+
+interface SearchNode {
+  state: GameState;
+  action: TurnAction | null;  // Turn that led here from the parent
+  mover: 0 | 1;               // Player who took that turn; rewards are from their side
+  parent: SearchNode | null;
+  children: SearchNode[];
+  untried: TurnAction[] | null;  // Expanded lazily, best heuristic move last
+  visits: number;
+  reward: number;
+}
+
+/**
+ * Choose the current player's turn by MCTS within the budget.
+ */
+export function searchComputerAction(state: GameState, budget: SearchBudget, seed: number): TurnAction {
+  const random = seededRandom(seed);
+  const root = createNode(state, null, getCurrentPlayerIndex(state), null);
+  const rootMoves = getUntried(root);
+  if (rootMoves.length === 1) return rootMoves[0];
+
+  const deadline = Date.now() + budget.timeMs;
+  for (let i = 0; i < budget.iterations && Date.now() < deadline; i++) {
+    // Selection: descend through fully expanded nodes by UCT
+    let node = root;
+    while (getUntried(node).length === 0 && node.children.length > 0) {
+      node = selectChild(node);
+    }
+
+    // Expansion: add one untried turn
+    const untried = getUntried(node);
+    if (untried.length > 0) {
+      const action = untried.pop()!;
+      const child = createNode(playTurn(node.state, action, placeLeatherByHeuristic), action, action.playerIndex, node);
+      node.children.push(child);
+      node = child;
+    }
+
+    // Simulation and backpropagation; reward is from player 0's side until flipped per node
+    const finalState = playOut(node.state, random);
+    const margin = calculateScore(finalState.players[0], finalState.rules) - calculateScore(finalState.players[1], finalState.rules);
+    const rewardForPlayer0 = 1 / (1 + Math.exp(-margin / SCORE_MARGIN_SCALE));
+    for (let n: SearchNode | null = node; n !== null; n = n.parent) {
+      n.visits++;
+      n.reward += n.mover === 0 ? rewardForPlayer0 : 1 - rewardForPlayer0;
+    }
+  }
+
+  // The most visited turn is the most robust choice
+  let best = root.children[0];
+  for (const child of root.children) {
+    if (child.visits > best.visits) best = child;
+  }
+  return best?.action ?? rootMoves[rootMoves.length - 1];
+}
+
+function createNode(state: GameState, action: TurnAction | null, mover: 0 | 1, parent: SearchNode | null): SearchNode {
+  return { state, action, mover, parent, children: [], untried: null, visits: 0, reward: 0 };
+}
+
+function getUntried(node: SearchNode): TurnAction[] {
+  if (node.untried === null) {
+    node.untried = isGameOver(node.state) ? [] : listTurns(node.state);
+  }
+  return node.untried;
+}
+
+function selectChild(node: SearchNode): SearchNode {
+  const logVisits = Math.log(node.visits);
+  let best = node.children[0];
+  let bestValue = -Infinity;
+  for (const child of node.children) {
+    const value = child.reward / child.visits + EXPLORATION * Math.sqrt(logVisits / child.visits);
+    if (value > bestValue) {
+      bestValue = value;
+      best = child;
+    }
+  }
+  return best;
+}
+
+/**
+ * Every buy at its heuristic placement plus the skip, ordered worst to best by heuristic value.
+ */
+export function listTurns(state: GameState): TurnAction[] {
+  const playerIndex = getCurrentPlayerIndex(state);
+  const scored: { action: TurnAction; score: number }[] = [
+    { action: { type: 'skip', playerIndex, spacesSkipped: getOvertakeDistance(state) }, score: 0 },
+  ];
+
+  const patches = getAvailablePatches(state);
+  for (let patchIndex = 0; patchIndex < patches.length; patchIndex++) {
+    if (!canBuyPatch(state, patchIndex)) continue;
+    const patch = patches[patchIndex];
+    const placement = chooseBestPlacement(state, playerIndex, patch);
+    if (!placement) continue;
+    scored.push({
+      action: { type: 'buyPatch', playerIndex, patchIndex, patchId: patch.id, placement: placement.placement },
+      score: evaluatePurchase(state, playerIndex, patch) + placement.score,
+    });
+  }
+
+  return scored.sort((a, b) => a.score - b.score).map(entry => entry.action);
+}
+
+/**
+ * Apply a turn and place (or forfeit) every leather patch it crossed.
+ */
+export function playTurn(
+  state: GameState,
+  action: TurnAction,
+  placeLeather: (state: GameState, playerIndex: 0 | 1, patch: Patch) => PlacementInfo | null
+): GameState {
+  const result = applyAction(state, action);
+  if (result.error !== null) throw new Error(`Search produced an illegal turn: ${result.error}`);
+  let next = result.state;
+
+  for (const trackPosition of getCrossedLeatherPositions(result.events)) {
+    const patch = getUncollectedLeatherPatch(next, trackPosition);
+    if (!patch) continue;
+    const placement = mustForfeitLeatherPatch(next, action.playerIndex, trackPosition)
+      ? null
+      : placeLeather(next, action.playerIndex, patch);
+    next = applyAction(next, { type: 'leatherPatch', playerIndex: action.playerIndex, trackPosition, placement }).state;
+  }
+  return next;
+}
+
+export function placeLeatherByHeuristic(state: GameState, playerIndex: 0 | 1, patch: Patch): PlacementInfo | null {
+  return chooseBestPlacement(state, playerIndex, patch)?.placement ?? null;
+}
+
+function placeAtFirstFit(state: GameState, playerIndex: 0 | 1, patch: Patch): PlacementInfo | null {
+  return getLegalPlacements(state.players[playerIndex].board, patch)[0] ?? null;
+}
+
+/**
+ * Play to the end: the best-value buy (or a skip) each turn, and with a random generator
+ * sometimes a random option instead.
+ */
+export function playOut(state: GameState, random: (() => number) | null): GameState {
+  let current = state;
+  while (!isGameOver(current)) {
+    const playerIndex = getCurrentPlayerIndex(current);
+    const options: TurnAction[] = [{ type: 'skip', playerIndex, spacesSkipped: getOvertakeDistance(current) }];
+    let bestOption = options[0];
+    let bestValue = 0;
+
+    const patches = getAvailablePatches(current);
+    for (let patchIndex = 0; patchIndex < patches.length; patchIndex++) {
+      if (!canBuyPatch(current, patchIndex)) continue;
+      const patch = patches[patchIndex];
+      const placement = placeAtFirstFit(current, playerIndex, patch)!;
+      const option: TurnAction = { type: 'buyPatch', playerIndex, patchIndex, patchId: patch.id, placement };
+      options.push(option);
+      const value = evaluatePurchase(current, playerIndex, patch);
+      if (value > bestValue) {
+        bestValue = value;
+        bestOption = option;
+      }
+    }
+
+    const action = random && random() < PLAYOUT_RANDOM_MOVE ? options[Math.floor(random() * options.length)] : bestOption;
+    current = playTurn(current, action, placeAtFirstFit);
+  }
+  return current;
+}
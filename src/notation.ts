@@ -0,0 +1,418 @@
+import type { BoardSize, GameState, RuleSet } from './types';
+import type { GameAction, GameHistory, PlacementInfo } from './history';
+import { applyAction, createInitialState, getCrossedLeatherPositions } from './engine';
+import { getAvailablePatches, getCurrentPlayerIndex } from './game';
+import { migrateHistory } from './history-schema';
+import { verifyHistory } from './verify';
+import { isBoardSize } from './variants';
+import { RULE_CHOICES } from './rules';
+
+/**
+ * Human-readable Patchwork notation, in the spirit of PGN:
+ *
+ *   [Seed "123456789"]
+ *   [Player1 "Alice"]
+ *   [Player2 "Bob"]
+ *   [FirstPlayer "1"]
+ *   [Variant "9x9"]          (or "7x7" for the Express board)
+ *   [Result "31-27"]
+ *   [PatchOrder "12 3 27 ..."]
+ *   [PatchFingerprint "1f2e3d4c"]
+ *   [Rules "buttons=5 track=53 income=5,11,... leather=8,18,... market=3 penalty=2 bonus=7 ties=stacking tiebreak=finishedFirst start=afterSmallestPatch"]
+ *
+ *   1. B2 @c4 r1 f
+ *   2. S+4
+ *   3. B1 @a1 L@e5
+ *
+ * One line per turn. Buys name the market slot (from 1), skips the spaces moved,
+ * and leather patches follow the turn that crossed them. Squares are a column
+ * letter from the left and a row number from the top, naming the top-left cell
+ * of the placed shape; `rN` rotates N quarter turns and `f` reflects. `Lx` records
+ * a leather patch forfeited because it fit nowhere on the board.
+ * Patch ids, players and leather track positions are derived by replaying the game.
+ * Without a PatchOrder header the market is shuffled from the seed as in version 1 histories.
+ * PatchFingerprint is the hex patch fingerprint of the history, when it has one.
+ * Without a Rules header the game is read as a pre-version 5 history, so it is played with the
+ * legacy rules those versions migrate to (ties=firstPlayer tiebreak=tie start=random) rather
+ * than the standard rules; a Rules header without those keys takes the same legacy values.
+ */
+
+export interface NotationError {
+  line: number;    // 1-based
+  column: number;  // 1-based
+  message: string;
+}
+
+export type ParseNotationResult =
+  | { success: true; history: GameHistory }
+  | { success: false; error: NotationError };
+
+const HEADER_TAGS = ['Seed', 'Player1', 'Player2', 'FirstPlayer', 'Variant', 'Result', 'PatchOrder', 'PatchFingerprint', 'Rules'] as const;
+type HeaderTag = typeof HEADER_TAGS[number];
+
+export function serializeNotation(history: GameHistory): string {
+  const result = history.finalScores ? `${history.finalScores[0]}-${history.finalScores[1]}` : '*';
+  const headers: [HeaderTag, string][] = [
+    ['Seed', String(history.seed)],
+    ['Player1', history.playerNames[0]],
+    ['Player2', history.playerNames[1]],
+    ['FirstPlayer', String(history.firstPlayerIndex + 1)],
+    ['Variant', `${history.boardSize}x${history.boardSize}`],
+    ['Result', result],
+    ['PatchOrder', history.patchOrder.join(' ')],
+  ];
+  if (history.patchFingerprint !== undefined) {
+    headers.push(['PatchFingerprint', history.patchFingerprint.toString(16).padStart(8, '0')]);
+  }
+  headers.push(['Rules', formatRules(history.rules)]);
+  const lines = headers.map(([tag, value]) => `[${tag} "${escapeHeaderValue(value)}"]`);
+  lines.push('');
+
+  let turn = 0;
+  for (const action of history.actions) {
+    switch (action.type) {
+      case 'buyPatch':
+        lines.push(`${++turn}. B${action.patchIndex + 1} @${formatPlacement(action.placement)}`);
+        break;
+      case 'skip':
+        lines.push(`${++turn}. S+${action.spacesSkipped}`);
+        break;
+      case 'leatherPatch':
+        // Leather patches always follow the turn that crossed them
+        lines[lines.length - 1] += action.placement ? ` L@${formatPlacement(action.placement)}` : ' Lx';
+        break;
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Parse notation back into a GameHistory. Parsing is strict: unknown headers,
+ * malformed moves and illegal moves are all rejected with their line and column.
+ */
+export function parseNotation(text: string): ParseNotationResult {
+  try {
+    return { success: true, history: parseLines(text.split(/\r?\n/)) };
+  } catch (e) {
+    if (isNotationError(e)) return { success: false, error: e };
+    throw e;
+  }
+}
+
+export function formatNotationError(error: NotationError): string {
+  return `Line ${error.line}, column ${error.column}: ${error.message}`;
+}
+
+function escapeHeaderValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+function formatPlacement(placement: PlacementInfo): string {
+  let text = `${String.fromCharCode(97 + placement.x)}${placement.y + 1}`;
+  if (placement.rotation !== 0) text += ` r${placement.rotation}`;
+  if (placement.reflected) text += ' f';
+  return text;
+}
+
+// Rules header keys, in the order they are written, with the history version that added each
+const RULE_KEYS: [string, keyof RuleSet, number][] = [
+  ['buttons', 'startingButtons', 4],
+  ['track', 'timeTrackLength', 4],
+  ['income', 'incomePositions', 4],
+  ['leather', 'leatherPatchPositions', 4],
+  ['market', 'marketSize', 4],
+  ['penalty', 'emptyCellPenalty', 4],
+  ['bonus', 'bonus7x7Points', 4],
+  ['ties', 'trackTieOrder', 5],
+  ['tiebreak', 'scoreTieBreak', 5],
+  ['start', 'neutralTokenStart', 5],
+];
+
+function formatRules(rules: RuleSet): string {
+  return RULE_KEYS.map(([key, field]) => {
+    const value = rules[field];
+    return `${key}=${Array.isArray(value) ? value.join(',') : value}`;
+  }).join(' ');
+}
+
+/**
+ * Read the key=value pairs of a Rules header, along with the history version the keys
+ * imply (older notation omits later rules). Values are left to the schema validator.
+ */
+function parseRules(header: HeaderValue): { rules: Record<string, unknown>; version: number } | null {
+  const rules: Record<string, unknown> = {};
+  let version = 4;
+  for (const pair of header.value.split(' ')) {
+    const match = pair.match(/^([a-z]+)=([A-Za-z]+|(?:\d+(?:,\d+)*)?)$/);
+    const entry = match && RULE_KEYS.find(([key]) => key === match[1]);
+    if (!match || !entry || entry[1] in rules) return null;
+    const [, field, since] = entry;
+    version = Math.max(version, since);
+
+    if (field in RULE_CHOICES) {
+      rules[field] = match[2];
+      continue;
+    }
+    if (/^[A-Za-z]/.test(match[2])) return null;
+    const numbers = match[2] === '' ? [] : match[2].split(',').map(Number);
+    const isList = field === 'incomePositions' || field === 'leatherPatchPositions';
+    if (!isList && numbers.length !== 1) return null;
+    rules[field] = isList ? numbers : numbers[0];
+  }
+  return { rules, version };
+}
+
+function fail(line: number, column: number, message: string): never {
+  const error: NotationError = { line, column, message };
+  throw error;
+}
+
+function isNotationError(value: unknown): value is NotationError {
+  return typeof value === 'object' && value !== null &&
+    'line' in value && 'column' in value && 'message' in value;
+}
+
+// A whitespace-separated token with its 1-based line and column
+interface Token {
+  text: string;
+  line: number;
+  column: number;
+}
+
+function tokenize(text: string, line: number): Token[] {
+  return [...text.matchAll(/\S+/g)].map(match => ({
+    text: match[0],
+    line,
+    column: match.index! + 1,
+  }));
+}
+
+// A header value with the position of its first character, for error reporting
+interface HeaderValue {
+  value: string;
+  line: number;
+  column: number;
+}
+
+function parseLines(lines: string[]): GameHistory {
+  // Header block: tag lines up to the first blank line
+  const headers = new Map<HeaderTag, HeaderValue>();
+  let lineIndex = 0;
+  for (; lineIndex < lines.length && lines[lineIndex].trim() !== ''; lineIndex++) {
+    const [tag, header] = parseHeaderLine(lines[lineIndex], lineIndex + 1);
+    if (headers.has(tag)) fail(lineIndex + 1, 1, `Duplicate header ${tag}`);
+    headers.set(tag, header);
+  }
+  const history = buildHistoryFromHeaders(headers, lineIndex + 1);
+
+  // Moves are resolved against the replayed game to fill in patch ids and players
+  let state = createInitialState(history);
+  const actionTokens: Token[] = [];
+  let turn = 0;
+  for (; lineIndex < lines.length; lineIndex++) {
+    const tokens = tokenize(lines[lineIndex], lineIndex + 1);
+    if (tokens.length === 0) continue;
+    state = parseTurn(tokens, ++turn, state, history, actionTokens);
+  }
+
+  // Catch what a single turn can't see: unplaced leather patches and the recorded result
+  const report = verifyHistory(history);
+  if (report.divergence) {
+    const { actionIndex, reason } = report.divergence;
+    const token = actionIndex !== null ? actionTokens[actionIndex] : undefined;
+    const resultHeader = headers.get('Result');
+    if (token) fail(token.line, token.column, reason);
+    fail(resultHeader?.line ?? lines.length, resultHeader?.column ?? 1, reason);
+  }
+
+  return history;
+}
+
+function parseHeaderLine(text: string, line: number): [HeaderTag, HeaderValue] {
+  const match = text.match(/^(\s*\[)([A-Za-z0-9]+) "((?:[^"\\]|\\.)*)"\]\s*$/);
+  if (!match) fail(line, 1, 'Expected a header like [Tag "value"]');
+
+  const tag = match[2];
+  if (!(HEADER_TAGS as readonly string[]).includes(tag)) {
+    fail(line, match[1].length + 1, `Unknown header ${tag}`);
+  }
+  return [tag as HeaderTag, {
+    value: match[3].replace(/\\(.)/g, '$1'),
+    line,
+    column: match[1].length + tag.length + 3,
+  }];
+}
+
+function buildHistoryFromHeaders(headers: Map<HeaderTag, HeaderValue>, headerEndLine: number): GameHistory {
+  const requireHeader = (tag: HeaderTag): HeaderValue => {
+    const header = headers.get(tag);
+    if (header === undefined) fail(headerEndLine, 1, `Missing header ${tag}`);
+    return header;
+  };
+  const invalid: (header: HeaderValue, what: string) => never = (header, what) =>
+    fail(header.line, header.column, `Invalid ${what} "${header.value}"`);
+
+  const seedHeader = requireHeader('Seed');
+  const seed = Number(seedHeader.value);
+  if (!/^\d+$/.test(seedHeader.value) || seed > 0xFFFFFFFF) invalid(seedHeader, 'seed');
+
+  const nameHeaders = [requireHeader('Player1'), requireHeader('Player2')];
+  for (const header of nameHeaders) {
+    if (header.value.trim() === '') invalid(header, 'player name');
+  }
+
+  const firstPlayerHeader = requireHeader('FirstPlayer');
+  if (firstPlayerHeader.value !== '1' && firstPlayerHeader.value !== '2') invalid(firstPlayerHeader, 'first player');
+
+  const variantHeader = requireHeader('Variant');
+  const variantMatch = variantHeader.value.match(/^(\d+)x\1$/);
+  const boardSize = variantMatch ? Number(variantMatch[1]) : null;
+  if (!isBoardSize(boardSize)) fail(variantHeader.line, variantHeader.column, `Unsupported variant "${variantHeader.value}"`);
+
+  const raw: Record<string, unknown> = {
+    version: 1,
+    seed,
+    playerNames: [nameHeaders[0].value, nameHeaders[1].value],
+    firstPlayerIndex: firstPlayerHeader.value === '1' ? 0 : 1,
+    boardSize,
+    actions: [],
+  };
+
+  const resultHeader = headers.get('Result');
+  if (resultHeader && resultHeader.value !== '*') {
+    const match = resultHeader.value.match(/^(-?\d+)-(-?\d+)$/);
+    if (!match) invalid(resultHeader, 'result');
+    raw.finalScores = [Number(match[1]), Number(match[2])];
+  }
+
+  const patchOrderHeader = headers.get('PatchOrder');
+  if (patchOrderHeader) {
+    if (!/^\d+( \d+)*$/.test(patchOrderHeader.value)) invalid(patchOrderHeader, 'patch order');
+    // Version 3 is the last schema with a patch order but no recorded rules
+    raw.version = 3;
+    raw.patchOrder = patchOrderHeader.value.split(' ').map(Number);
+  }
+
+  const fingerprintHeader = headers.get('PatchFingerprint');
+  if (fingerprintHeader) {
+    if (!/^[0-9a-f]{8}$/.test(fingerprintHeader.value)) invalid(fingerprintHeader, 'patch fingerprint');
+    raw.patchFingerprint = parseInt(fingerprintHeader.value, 16);
+  }
+
+  const rulesHeader = headers.get('Rules');
+  if (rulesHeader) {
+    const parsed = parseRules(rulesHeader) ?? invalid(rulesHeader, 'rules');
+    raw.version = parsed.version;
+    raw.rules = parsed.rules;
+  }
+
+  const migrated = migrateHistory(raw);
+  if (!migrated.success) {
+    const header = rulesHeader ?? fingerprintHeader ?? patchOrderHeader ?? seedHeader;
+    fail(header.line, header.column, migrated.error);
+  }
+  return migrated.history;
+}
+
+// Parse one turn line, append its actions (and the tokens they came from) to history and return the state after them
+function parseTurn(
+  tokens: Token[],
+  turn: number,
+  state: GameState,
+  history: GameHistory,
+  actionTokens: Token[]
+): GameState {
+  const [numberToken, moveToken] = tokens;
+  if (numberToken.text !== `${turn}.`) {
+    fail(numberToken.line, numberToken.column, `Expected turn number "${turn}."`);
+  }
+  if (!moveToken) fail(numberToken.line, numberToken.column + numberToken.text.length, 'Expected a move');
+
+  const playerIndex = getCurrentPlayerIndex(state);
+  let rest = tokens.slice(2);
+  let action: GameAction;
+
+  const buy = moveToken.text.match(/^B(\d)$/);
+  const skip = moveToken.text.match(/^S\+(\d+)$/);
+  if (buy) {
+    const patchIndex = Number(buy[1]) - 1;
+    const patch = getAvailablePatches(state)[patchIndex];
+    if (!patch) fail(moveToken.line, moveToken.column, `No patch in market slot ${patchIndex + 1}`);
+
+    const squareToken = rest[0];
+    if (!squareToken || !squareToken.text.startsWith('@')) {
+      const column = squareToken?.column ?? moveToken.column + moveToken.text.length;
+      fail(moveToken.line, column, 'Expected a square like @c4');
+    }
+    const [placement, remaining] = parsePlacement(squareToken, squareToken.text.slice(1), rest.slice(1), history.boardSize);
+    rest = remaining;
+    action = { type: 'buyPatch', playerIndex, patchIndex, patchId: patch.id, placement };
+  } else if (skip) {
+    action = { type: 'skip', playerIndex, spacesSkipped: Number(skip[1]) };
+  } else {
+    fail(moveToken.line, moveToken.column, `Unknown move "${moveToken.text}"`);
+  }
+
+  const result = applyAction(state, action);
+  if (result.error !== null) fail(moveToken.line, moveToken.column, result.error);
+  history.actions.push(action);
+  actionTokens.push(moveToken);
+  state = result.state;
+
+  // Leather patches are placed in the order they were crossed
+  const crossed = getCrossedLeatherPositions(result.events);
+  while (rest.length > 0) {
+    const leatherToken = rest[0];
+    const forfeited = leatherToken.text === 'Lx';
+    if (!forfeited && !leatherToken.text.startsWith('L@')) {
+      fail(leatherToken.line, leatherToken.column, `Unexpected "${leatherToken.text}"`);
+    }
+    const trackPosition = crossed.shift();
+    if (trackPosition === undefined) {
+      fail(leatherToken.line, leatherToken.column, 'No leather patch was crossed on this turn');
+    }
+
+    let placement: PlacementInfo | null = null;
+    if (forfeited) {
+      rest = rest.slice(1);
+    } else {
+      [placement, rest] = parsePlacement(leatherToken, leatherToken.text.slice(2), rest.slice(1), history.boardSize);
+    }
+    const leatherAction: GameAction = { type: 'leatherPatch', playerIndex, trackPosition, placement };
+    const leatherResult = applyAction(state, leatherAction);
+    if (leatherResult.error !== null) fail(leatherToken.line, leatherToken.column, leatherResult.error);
+    history.actions.push(leatherAction);
+    actionTokens.push(leatherToken);
+    state = leatherResult.state;
+  }
+
+  return state;
+}
+
+// Parse a square plus optional rotation and reflection tokens, returning the tokens left over
+function parsePlacement(
+  token: Token,
+  square: string,
+  following: Token[],
+  boardSize: BoardSize
+): [PlacementInfo, Token[]] {
+  const match = square.match(/^([a-z])(\d+)$/);
+  const x = match ? match[1].charCodeAt(0) - 97 : -1;
+  const y = match ? Number(match[2]) - 1 : -1;
+  if (x < 0 || x >= boardSize || y < 0 || y >= boardSize) {
+    fail(token.line, token.column, `Invalid square "${square}"`);
+  }
+
+  let rest = following;
+  let rotation = 0;
+  const rotationMatch = rest[0]?.text.match(/^r([0-3])$/);
+  if (rotationMatch) {
+    rotation = Number(rotationMatch[1]);
+    rest = rest.slice(1);
+  }
+  const reflected = rest[0]?.text === 'f';
+  if (reflected) rest = rest.slice(1);
+
+  return [{ x, y, rotation, reflected }, rest];
+}
@@ -1,13 +1,8 @@
-import type { BoardSize, Patch, PatchDefinition, Shape } from './types';
+import type { Patch, PatchDefinition, Shape } from './types';
 
 // Leather patch shape - 1x1 single square (placed on time track, not in market)
 export const LEATHER_PATCH_SHAPE: Shape = [[1]];
 
-// Leather patch positions on time track
-export function getLeatherPatchPositions(_boardSize: BoardSize): number[] {
-  return [8, 18, 28, 38, 48];
-}
-
 // Create a leather patch with the given ID (use negative IDs to distinguish from market patches)
 export function createLeatherPatch(id: number): Patch {
   return {
@@ -384,6 +379,24 @@ export function createPatchesFromDefinitions(definitions: PatchDefinition[]): Pa
 // Keep PATCH_DEFINITIONS for backwards compatibility
 export const PATCH_DEFINITIONS: Patch[] = createPatchesFromDefinitions(PATCH_SHAPE_DEFINITIONS);
 
+/**
+ * FNV-1a hash of each listed patch's id, shape, costs and income, in order. Game histories
+ * record it so a replay notices when a patch id has come to mean a different patch.
+ * Unknown ids are skipped; history validation rejects them first.
+ */
+export function getPatchFingerprint(patchIds: number[]): number {
+  let hash = 0x811C9DC5;
+  for (const id of patchIds) {
+    const patch = PATCH_DEFINITIONS.find(p => p.id === id);
+    if (!patch) continue;
+    const key = `${id}=${shapeToString(patch.shape)}/${variantToString(patch)};`;
+    for (let i = 0; i < key.length; i++) {
+      hash = Math.imul(hash ^ key.charCodeAt(i), 0x01000193);
+    }
+  }
+  return hash >>> 0;
+}
+
 export function rotatePatch(shape: Shape, times: number): Shape {
   let result = shape;
   for (let i = 0; i < times % 4; i++) {
@@ -0,0 +1,57 @@
+import type { GameState, Player } from './types';
+import type { PlacementInfo } from './history';
+import { applyAction } from './engine';
+import { getAvailablePatches } from './game';
+import { getFragmentationScore } from './board-analysis';
+
+/**
+ * What buying a market patch at a placement would do, found by applying the buy to the
+ * current state and comparing before and after. applyAction works on a clone, so the live
+ * state is untouched and the preview always follows the real rules.
+ */
+
+// Pairs are [before, after]
+export interface PlacementPreview {
+  buttons: [number, number];  // After paying and collecting any income crossed
+  income: [number, number];
+  position: [number, number];
+  incomeCheckpointsCrossed: number;
+  leatherPatchesCrossed: number;
+  emptyCellPenalty: [number, number];
+  fragmentation: [number, number];  // Expected penalty from dead regions
+  completesBonusSquare: boolean;
+}
+
+/**
+ * Preview a buy from a market slot, or null when the buy is not legal there.
+ */
+export function previewPlacement(
+  state: GameState,
+  playerIndex: 0 | 1,
+  patchIndex: number,
+  placement: PlacementInfo
+): PlacementPreview | null {
+  const patch = getAvailablePatches(state)[patchIndex];
+  if (!patch) return null;
+
+  const result = applyAction(state, { type: 'buyPatch', playerIndex, patchIndex, patchId: patch.id, placement });
+  if (result.error !== null) return null;
+
+  const before = state.players[playerIndex];
+  const after = result.state.players[playerIndex];
+  return {
+    buttons: [before.buttons, after.buttons],
+    income: [before.income, after.income],
+    position: [before.position, after.position],
+    incomeCheckpointsCrossed: state.incomePositions.filter(pos => before.position < pos && after.position >= pos).length,
+    leatherPatchesCrossed: result.events.filter(event => event.type === 'leatherPatchCrossed').length,
+    emptyCellPenalty: [getEmptyCellPenalty(before, state), getEmptyCellPenalty(after, state)],
+    fragmentation: [getFragmentationScore(state, playerIndex), getFragmentationScore(result.state, playerIndex)],
+    completesBonusSquare: result.events.some(event => event.type === 'bonus7x7Claimed'),
+  };
+}
+
+function getEmptyCellPenalty(player: Player, state: GameState): number {
+  const emptyCells = player.board.flat().filter(cell => cell === null).length;
+  return emptyCells * state.rules.emptyCellPenalty;
+}
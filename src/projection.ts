@@ -0,0 +1,19 @@
+import type { GameState } from './types';
+import { calculateScore } from './game';
+
+/**
+ * Projected final score: the score if the game ended now (buttons, the empty cell penalty
+ * and a claimed bonus square), plus the current income paid at every checkpoint still
+ * ahead. Future buys and skips are not guessed at: it shows where the current position
+ * leads rather than predicting the result.
+ */
+
+export function projectFinalScore(state: GameState, playerIndex: 0 | 1): number {
+  return calculateScore(state.players[playerIndex], state.rules) +
+    state.players[playerIndex].income * countIncomeCheckpointsAhead(state, playerIndex);
+}
+
+function countIncomeCheckpointsAhead(state: GameState, playerIndex: 0 | 1): number {
+  const position = state.players[playerIndex].position;
+  return state.incomePositions.filter(pos => pos > position).length;
+}
@@ -1,13 +1,16 @@
-import type { AppState, Button, GameState, Patch, PlacementState, Player, RenderContext, RenderResult, Shape, Toast } from './types';
-import { calculateScore, canPlacePatch, getAvailablePatches, getCurrentPlayerIndex, getNextIncomeDistance, getOvertakeDistance, getWinner } from './game';
+import type { AppState, BoardSize, Button, GameEndTab, GameState, Patch, PlacementState, Player, RenderContext, RenderResult, Shape, Toast } from './types';
+import { calculateScore, canPlacePatch, getAvailablePatches, getCurrentPlayerIndex, getNextIncomeDistance, getOvertakeDistance, getWinner, isTieBreakWin } from './game';
 import {
-  editName, startGame, selectFirstPlayer, toggleAutoSkip, toggleFaceToFaceMode,
-  togglePlacementAnimations,
-  skip, openMapView,
+  editName, toggleComputerPlayer, startGame, resumeGame, openRecentGames, selectFirstPlayer, toggleAutoSkip, toggleFaceToFaceMode,
+  togglePlacementAnimations, toggleUndoOwnTurnOnly, toggleCoaching,
+  skip, openMapView, undo, redo, requestHint,
   cancelPlacement, confirmPlacement, rotate, reflect,
-  playAgain, previewBoard, backToGameEnd, setGameEndTab,
+  playAgain, previewBoard, backToGameEnd, setGameEndTab, openAnalyzedTurn, openReplay, copyReplayLink, copyNotation,
+  closeReplay, toggleReplayPlayback, replayStepForward, replayStepBackward, cycleReplaySpeed, jumpToReplayTurn,
   closeMapView, trackPosition,
   getIsAdminMode, openAdminTestScreen, backToSetup,
+  openHouseRules, cycleRulePreset, adjustRule, editRulePositions, cycleRuleChoice, cycleBoardSize,
+  setRecentGamesFilter, pasteNotation, changeRecentGamesPage, deleteRecentGame, openRecentGameReplay, openRecentGameSummary,
   loadTestGame1Patch, loadTestGame2Patches,
   loadTestGameNearIncome, loadTestGameInfiniteMoney, loadTestGameNearLeatherPatch,
   loadTestGameNearLastIncome, loadTestGameOver,
@@ -18,8 +21,19 @@ import { COLORS, getPatchColor, adjustColorOpacity, getPlayerColor, drawPlayerGr
 import { getOpponentIndex } from './player-utils';
 import { renderBoard as renderBoardNew } from './renderer/board-renderer';
 import { calculateStats, calculateChartData } from './stats';
+import { projectFinalScore } from './projection';
+import { previewPlacement, type PlacementPreview } from './placement-preview';
+import { findNewlyDeadCells, type BoardCell } from './board-analysis';
 import { renderCharts } from './renderer/chart-renderer';
 import { getMinDim, LAYOUT, scale, font, getBoardLayout } from './layout';
+import { canRedo, canUndo } from './undo';
+import { canPatchFit } from './engine';
+import { getReplayFocusPlayer, getReplayTurn, getReplayTurnCount } from './replay';
+import { filterGameRecords, type GameRecord } from './game-library';
+import { getRulePresetName, RULE_CHOICES, type ChoiceRule, type NumericRule } from './rules';
+import { BOARD_VARIANTS } from './variants';
+import { COMPUTER_LEVELS, type TurnAction } from './mcts';
+import type { GameAnalysis } from './analysis';
 
 // Board layout info for coordinate calculations
 export interface BoardLayout {
@@ -103,6 +117,13 @@ export function resizeRenderContext(rctx: RenderContext): RenderContext {
   return { ...rctx, width, height, minDim };
 }
 
+/**
+ * Player acting on screen: the owner of pending leather patches, otherwise the current player.
+ */
+function getActivePlayerIndex(state: AppState, game: GameState): 0 | 1 {
+  return state.leatherPatchOwner ?? getCurrentPlayerIndex(game);
+}
+
 function ctxTransaction(ctx: CanvasRenderingContext2D, body: () => void): void {
   ctx.save();
   body();
@@ -124,7 +145,7 @@ export function render(
   const isScreenRotated = state.faceToFaceMode &&
     (state.screen === 'game' || state.screen === 'placement') &&
     state.gameState !== null &&
-    getCurrentPlayerIndex(state.gameState) === 1;
+    getActivePlayerIndex(state, state.gameState) === 1;
 
   // Get the appropriate render function for the current screen
   let renderScreen: () => void;
@@ -150,6 +171,15 @@ export function render(
     case 'boardPreview':
       renderScreen = () => renderBoardPreview(rctx, buttons, state);
       break;
+    case 'replay':
+      renderScreen = () => renderReplayScreen(rctx, buttons, state);
+      break;
+    case 'recentGames':
+      renderScreen = () => renderRecentGamesScreen(rctx, buttons, state);
+      break;
+    case 'houseRules':
+      renderScreen = () => renderHouseRulesScreen(rctx, buttons, state);
+      break;
     default:
       renderScreen = () => {};
   }
@@ -223,6 +253,26 @@ function renderSetupScreen(rctx: RenderContext, buttons: Button[], state: AppSta
       action: () => editName(i as 0 | 1),
       type: 'standard',
     });
+
+    // Human/Computer toggle on the outer side of the name, cycling through the computer levels
+    const toggleX = i === 0 ? x - nameGap / 2 - nameButtonHeight : x + nameButtonWidth + nameGap / 2;
+    const level = state.computerPlayers[i];
+    ctx.strokeStyle = getPlayerColor(i as 0 | 1, level !== null);
+    ctx.lineWidth = 2;
+    ctx.strokeRect(toggleX, nameY, nameButtonHeight, nameButtonHeight);
+    ctx.fillStyle = COLORS.text;
+    ctx.fillText(level !== null ? '🤖' : '👤', toggleX + nameButtonHeight / 2, nameY + nameButtonHeight / 2 + scale(minDim, 0.0075));
+    if (level !== null) {
+      ctx.font = font(minDim, 'tiny');
+      ctx.fillText(COMPUTER_LEVELS[level].label, toggleX + nameButtonHeight / 2, nameY + nameButtonHeight + scale(minDim, 0.02));
+    }
+
+    buttons.push({
+      x: toggleX, y: nameY, width: nameButtonHeight, height: nameButtonHeight,
+      label: level !== null ? `Computer (${COMPUTER_LEVELS[level].label})` : 'Human',
+      action: () => toggleComputerPlayer(i as 0 | 1),
+      type: 'standard',
+    });
   }
 
   // "Who goes first:" label
@@ -283,7 +333,7 @@ function renderSetupScreen(rctx: RenderContext, buttons: Button[], state: AppSta
   }
 
   // Auto-skip toggle
-  const autoSkipY = height * 0.50;
+  const autoSkipY = height * 0.495;
   const checkboxSize = scale(minDim, LAYOUT.checkbox.size);
   const checkboxX = centerX - scale(minDim, 0.1875);
   const labelX = checkboxX + checkboxSize + scale(minDim, LAYOUT.gap.medium);
@@ -321,7 +371,7 @@ function renderSetupScreen(rctx: RenderContext, buttons: Button[], state: AppSta
   });
 
   // Face-to-face mode toggle
-  const faceToFaceY = height * 0.56;
+  const faceToFaceY = height * 0.54;
 
   // Checkbox
   if (state.faceToFaceMode) {
@@ -356,7 +406,7 @@ function renderSetupScreen(rctx: RenderContext, buttons: Button[], state: AppSta
   });
 
   // Placement animations toggle
-  const animationsY = height * 0.61;
+  const animationsY = height * 0.585;
 
   // Checkbox
   if (state.placementAnimationsEnabled) {
@@ -390,11 +440,81 @@ function renderSetupScreen(rctx: RenderContext, buttons: Button[], state: AppSta
     type: 'standard',
   });
 
+  // Undo limit toggle
+  const undoLimitY = height * 0.63;
+
+  // Checkbox
+  if (state.undoOwnTurnOnly) {
+    ctx.fillStyle = COLORS.panelActive;
+    ctx.fillRect(checkboxX, undoLimitY, checkboxSize, checkboxSize);
+    // Checkmark - positions relative to checkbox size
+    ctx.strokeStyle = COLORS.text;
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    ctx.moveTo(checkboxX + checkboxSize * 0.2, undoLimitY + checkboxSize * 0.5);
+    ctx.lineTo(checkboxX + checkboxSize * 0.4, undoLimitY + checkboxSize * 0.73);
+    ctx.lineTo(checkboxX + checkboxSize * 0.8, undoLimitY + checkboxSize * 0.27);
+    ctx.stroke();
+  } else {
+    ctx.strokeStyle = COLORS.panel;
+    ctx.lineWidth = 2;
+    ctx.strokeRect(checkboxX, undoLimitY, checkboxSize, checkboxSize);
+  }
+
+  // Label
+  ctx.fillStyle = COLORS.text;
+  ctx.font = font(minDim, 'small');
+  ctx.textAlign = 'left';
+  ctx.fillText('Undo only before opponent moves', labelX, undoLimitY + checkboxSize / 2 + scale(minDim, 0.00625));
+  ctx.textAlign = 'center';
+
+  buttons.push({
+    x: checkboxX, y: undoLimitY, width: checkboxHitWidth, height: checkboxSize,
+    label: 'Toggle Undo Limit',
+    action: toggleUndoOwnTurnOnly,
+    type: 'standard',
+  });
+
+  // Coaching toggle
+  const coachingY = height * 0.675;
+
+  // Checkbox
+  if (state.coachingEnabled) {
+    ctx.fillStyle = COLORS.panelActive;
+    ctx.fillRect(checkboxX, coachingY, checkboxSize, checkboxSize);
+    // Checkmark - positions relative to checkbox size
+    ctx.strokeStyle = COLORS.text;
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    ctx.moveTo(checkboxX + checkboxSize * 0.2, coachingY + checkboxSize * 0.5);
+    ctx.lineTo(checkboxX + checkboxSize * 0.4, coachingY + checkboxSize * 0.73);
+    ctx.lineTo(checkboxX + checkboxSize * 0.8, coachingY + checkboxSize * 0.27);
+    ctx.stroke();
+  } else {
+    ctx.strokeStyle = COLORS.panel;
+    ctx.lineWidth = 2;
+    ctx.strokeRect(checkboxX, coachingY, checkboxSize, checkboxSize);
+  }
+
+  // Label
+  ctx.fillStyle = COLORS.text;
+  ctx.font = font(minDim, 'small');
+  ctx.textAlign = 'left';
+  ctx.fillText('Coach: point out costly moves', labelX, coachingY + checkboxSize / 2 + scale(minDim, 0.00625));
+  ctx.textAlign = 'center';
+
+  buttons.push({
+    x: checkboxX, y: coachingY, width: checkboxHitWidth, height: checkboxSize,
+    label: 'Toggle Coaching',
+    action: toggleCoaching,
+    type: 'standard',
+  });
+
   // Start button
   const startBtnWidth = scale(minDim, LAYOUT.buttonWidth.large);
   const startBtnHeight = scale(minDim, LAYOUT.buttonHeight.large);
   const startBtnX = centerX - startBtnWidth / 2;
-  const startBtnY = height * 0.66;
+  const startBtnY = height * 0.72;
 
   ctx.fillStyle = COLORS.button;
   ctx.fillRect(startBtnX, startBtnY, startBtnWidth, startBtnHeight);
@@ -410,12 +530,98 @@ function renderSetupScreen(rctx: RenderContext, buttons: Button[], state: AppSta
     type: 'standard',
   });
 
+  // Board variant button, cycling through the board sizes
+  const rulesBtnWidth = scale(minDim, LAYOUT.buttonWidth.large);
+  const rulesBtnHeight = scale(minDim, LAYOUT.buttonHeight.small);
+  const rulesBtnX = centerX - rulesBtnWidth / 2;
+  const boardBtnY = startBtnY + startBtnHeight + scale(minDim, LAYOUT.gap.medium);
+  const variant = BOARD_VARIANTS[state.selectedBoardSize];
+
+  ctx.fillStyle = COLORS.panel;
+  ctx.fillRect(rulesBtnX, boardBtnY, rulesBtnWidth, rulesBtnHeight);
+
+  ctx.fillStyle = COLORS.text;
+  ctx.font = font(minDim, 'small', 'bold');
+  ctx.fillText(`BOARD: ${variant.boardSize}x${variant.boardSize}`, centerX, boardBtnY + rulesBtnHeight / 2 + scale(minDim, 0.00625));
+
+  buttons.push({
+    x: rulesBtnX, y: boardBtnY, width: rulesBtnWidth, height: rulesBtnHeight,
+    label: 'Board Size',
+    action: cycleBoardSize,
+    type: 'standard',
+  });
+
+  // House rules button, showing the active preset; other boards play with their variant's own rules
+  const houseRulesApply = state.selectedBoardSize === 9;
+  const rulesBtnY = boardBtnY + rulesBtnHeight + scale(minDim, LAYOUT.gap.medium);
+
+  ctx.fillStyle = houseRulesApply ? COLORS.panel : COLORS.buttonDisabled;
+  ctx.fillRect(rulesBtnX, rulesBtnY, rulesBtnWidth, rulesBtnHeight);
+
+  ctx.fillStyle = COLORS.text;
+  const rulesName = houseRulesApply ? getRulePresetName(state.houseRules) : variant.name;
+  ctx.fillText(`RULES: ${rulesName.toUpperCase()}`, centerX, rulesBtnY + rulesBtnHeight / 2 + scale(minDim, 0.00625));
+
+  if (houseRulesApply) {
+    buttons.push({
+      x: rulesBtnX, y: rulesBtnY, width: rulesBtnWidth, height: rulesBtnHeight,
+      label: 'House Rules',
+      action: openHouseRules,
+      type: 'standard',
+    });
+  }
+
+  // Resume button (only visible if an in-progress game was auto-saved)
+  let nextBtnY = rulesBtnY + rulesBtnHeight + scale(minDim, LAYOUT.gap.large);
+  if (state.resumableGame) {
+    const resumeBtnWidth = scale(minDim, LAYOUT.buttonWidth.large);
+    const resumeBtnHeight = scale(minDim, LAYOUT.buttonHeight.medium);
+    const resumeBtnX = centerX - resumeBtnWidth / 2;
+    const resumeBtnY = nextBtnY;
+
+    ctx.fillStyle = COLORS.panelActive;
+    ctx.fillRect(resumeBtnX, resumeBtnY, resumeBtnWidth, resumeBtnHeight);
+
+    ctx.fillStyle = COLORS.text;
+    ctx.font = font(minDim, 'normal', 'bold');
+    ctx.fillText('RESUME GAME', centerX, resumeBtnY + resumeBtnHeight / 2 + scale(minDim, 0.0075));
+
+    buttons.push({
+      x: resumeBtnX, y: resumeBtnY, width: resumeBtnWidth, height: resumeBtnHeight,
+      label: 'Resume Game',
+      action: resumeGame,
+      type: 'standard',
+    });
+    nextBtnY = resumeBtnY + resumeBtnHeight + scale(minDim, LAYOUT.gap.large);
+  }
+
+  // Recent games button
+  const recentBtnWidth = scale(minDim, LAYOUT.buttonWidth.large);
+  const recentBtnHeight = scale(minDim, LAYOUT.buttonHeight.medium);
+  const recentBtnX = centerX - recentBtnWidth / 2;
+  const recentBtnY = nextBtnY;
+
+  ctx.fillStyle = COLORS.panel;
+  ctx.fillRect(recentBtnX, recentBtnY, recentBtnWidth, recentBtnHeight);
+
+  ctx.fillStyle = COLORS.text;
+  ctx.font = font(minDim, 'normal', 'bold');
+  ctx.fillText('RECENT GAMES', centerX, recentBtnY + recentBtnHeight / 2 + scale(minDim, 0.0075));
+
+  buttons.push({
+    x: recentBtnX, y: recentBtnY, width: recentBtnWidth, height: recentBtnHeight,
+    label: 'Recent Games',
+    action: openRecentGames,
+    type: 'standard',
+  });
+  nextBtnY = recentBtnY + recentBtnHeight + scale(minDim, LAYOUT.gap.large);
+
   // Admin test button (only visible if admin query param is present)
   if (getIsAdminMode()) {
     const adminBtnWidth = scale(minDim, LAYOUT.buttonWidth.large);
     const adminBtnHeight = scale(minDim, LAYOUT.buttonHeight.medium);
     const adminBtnX = centerX - adminBtnWidth / 2;
-    const adminBtnY = startBtnY + startBtnHeight + scale(minDim, LAYOUT.gap.large);
+    const adminBtnY = nextBtnY;
 
     ctx.fillStyle = '#e74c3c';
     ctx.fillRect(adminBtnX, adminBtnY, adminBtnWidth, adminBtnHeight);
@@ -534,11 +740,20 @@ function renderGameScreen(rctx: RenderContext, buttons: Button[], state: AppStat
     boardSize + borderWidth * 2
   );
 
-  renderBoard(ctx, game.players[displayPlayerIdx], boardLeft, boardTop, boardSize);
+  // A hinted buy is previewed as a ghost on the current player's board
+  const hint = state.previewingOpponentBoard ? null : state.hint;
+  const hintedPatch = hint?.type === 'buyPatch' ? getAvailablePatches(game)[hint.patchIndex] : undefined;
+  if (hint?.type === 'buyPatch' && hintedPatch) {
+    const placement = { patchIndex: hint.patchIndex, ...hint.placement };
+    renderBoardWithGhost(ctx, game.players[displayPlayerIdx], game.boardSize, boardLeft, boardTop, boardSize, hintedPatch, placement, true);
+  } else {
+    renderBoard(ctx, game.players[displayPlayerIdx], game.boardSize, boardLeft, boardTop, boardSize);
+  }
 
   // Available patches
   const patchesTop = boardTop + boardSize + scale(minDim, LAYOUT.gap.large);
-  renderAvailablePatches(rctx, buttons, game, boardLeft, patchesTop, boardSize);
+  const hintedIndex = hint?.type === 'buyPatch' ? hint.patchIndex : null;
+  renderAvailablePatches(rctx, buttons, game, boardLeft, patchesTop, boardSize, hintedIndex);
 
   // Skip button
   const skipBtnWidth = boardSize;
@@ -563,6 +778,12 @@ function renderGameScreen(rctx: RenderContext, buttons: Button[], state: AppStat
     : `SKIP & MOVE AHEAD (+${spacesToSkip})`;
   ctx.fillText(skipText, skipBtnX + skipBtnWidth / 2, skipBtnY + skipBtnHeight / 2 + scale(minDim, 0.00875));
 
+  if (hint?.type === 'skip') {
+    ctx.strokeStyle = COLORS.hint;
+    ctx.lineWidth = 3;
+    ctx.strokeRect(skipBtnX, skipBtnY, skipBtnWidth, skipBtnHeight);
+  }
+
   buttons.push({
     x: skipBtnX, y: skipBtnY, width: skipBtnWidth, height: skipBtnHeight,
     label: 'Skip',
@@ -570,12 +791,68 @@ function renderGameScreen(rctx: RenderContext, buttons: Button[], state: AppStat
     type: 'standard',
   });
 
-  // Toggle map button (above skip button)
+  // Toggle map button (above skip button), flanked by undo/redo and led by hint when history is tracked
   const mapBtnHeight = scale(minDim, LAYOUT.buttonHeight.small);
   const mapBtnGap = scale(minDim, LAYOUT.gap.medium);
-  const mapBtnX = skipBtnX;
   const mapBtnY = skipBtnY - mapBtnHeight - mapBtnGap;
-  const mapBtnWidth = skipBtnWidth;
+  let mapBtnX = skipBtnX;
+  let mapBtnWidth = skipBtnWidth;
+
+  if (state.historyManager) {
+    const historyBtnWidth = (skipBtnWidth - mapBtnGap * 2) / 4;
+    const undoAvailable = canUndo(state.historyManager, state.undoOwnTurnOnly);
+    const redoAvailable = canRedo(state.historyManager);
+    const redoBtnX = skipBtnX + skipBtnWidth - historyBtnWidth;
+
+    ctx.fillStyle = undoAvailable ? COLORS.panel : COLORS.buttonDisabled;
+    ctx.fillRect(skipBtnX, mapBtnY, historyBtnWidth, mapBtnHeight);
+    ctx.fillStyle = redoAvailable ? COLORS.panel : COLORS.buttonDisabled;
+    ctx.fillRect(redoBtnX, mapBtnY, historyBtnWidth, mapBtnHeight);
+
+    ctx.fillStyle = COLORS.text;
+    ctx.font = font(minDim, 'info', 'bold');
+    ctx.textAlign = 'center';
+    const textY = mapBtnY + mapBtnHeight / 2 + scale(minDim, 0.00625);
+    ctx.fillText('UNDO', skipBtnX + historyBtnWidth / 2, textY);
+    ctx.fillText('REDO', redoBtnX + historyBtnWidth / 2, textY);
+
+    if (undoAvailable) {
+      buttons.push({
+        x: skipBtnX, y: mapBtnY, width: historyBtnWidth, height: mapBtnHeight,
+        label: 'Undo',
+        action: undo,
+        type: 'standard',
+      });
+    }
+    if (redoAvailable) {
+      buttons.push({
+        x: redoBtnX, y: mapBtnY, width: historyBtnWidth, height: mapBtnHeight,
+        label: 'Redo',
+        action: redo,
+        type: 'standard',
+      });
+    }
+
+    // Hints are for humans, one per turn
+    const hintBtnX = skipBtnX + historyBtnWidth + mapBtnGap;
+    const hintAvailable = state.computerPlayers[currentPlayerIdx] === null && !state.hint && !state.hintPending;
+    ctx.fillStyle = hintAvailable ? COLORS.panel : COLORS.buttonDisabled;
+    ctx.fillRect(hintBtnX, mapBtnY, historyBtnWidth, mapBtnHeight);
+    ctx.fillStyle = COLORS.text;
+    ctx.fillText(state.hintPending ? '...' : 'HINT', hintBtnX + historyBtnWidth / 2, textY);
+
+    if (hintAvailable) {
+      buttons.push({
+        x: hintBtnX, y: mapBtnY, width: historyBtnWidth, height: mapBtnHeight,
+        label: 'Hint',
+        action: requestHint,
+        type: 'standard',
+      });
+    }
+
+    mapBtnX = hintBtnX + historyBtnWidth + mapBtnGap;
+    mapBtnWidth = redoBtnX - mapBtnGap - mapBtnX;
+  }
 
   ctx.fillStyle = COLORS.panel;
   ctx.fillRect(mapBtnX, mapBtnY, mapBtnWidth, mapBtnHeight);
@@ -627,19 +904,19 @@ function renderPlayerPanels(rctx: RenderContext, buttons: Button[], game: GameSt
     // Income info
     const incomeDistance = getNextIncomeDistance(game, playerIdx);
     const incomeText = incomeDistance !== null ? `+${player.income} in ${incomeDistance}` : `+${player.income} (done)`;
-    ctx.fillText(incomeText, centerX, incomeY);
+    ctx.fillText(`${incomeText}   Projected: ${projectFinalScore(game, playerIdx)}`, centerX, incomeY);
 
-    // Turn ends info (only for current player) or 7x7 bonus indicator
+    // Turn ends info (only for current player) or bonus square indicator
     if (isActive) {
       ctx.fillText(`Turn ends in: ${overtakeDistance}`, centerX, turnY);
     }
 
-    // 7x7 bonus indicator
+    // Bonus square indicator
     if (player.bonus7x7Area !== null) {
       ctx.fillStyle = COLORS.bonus7x7;
       ctx.font = font(minDim, 'tiny', 'bold');
       const bonusOffset = isActive ? scale(minDim, 0.075) : 0;
-      ctx.fillText('+7 Bonus', centerX + bonusOffset, turnY);
+      ctx.fillText(`+${game.rules.bonus7x7Points} Bonus`, centerX + bonusOffset, turnY);
       ctx.fillStyle = COLORS.text;
       ctx.font = font(minDim, 'tiny');
     }
@@ -693,25 +970,42 @@ function drawButtonIndicators(
   }
 }
 
-function renderBoard(ctx: CanvasRenderingContext2D, player: Player, x: number, y: number, size: number): void {
-  renderBoardNew(ctx, player, x, y, size);
+function renderBoard(ctx: CanvasRenderingContext2D, player: Player, boardCells: BoardSize, x: number, y: number, size: number): void {
+  renderBoardNew(ctx, player, boardCells, x, y, size);
 }
 
-function renderAvailablePatches(rctx: RenderContext, buttons: Button[], game: GameState, x: number, y: number, totalWidth: number): void {
+function renderAvailablePatches(
+  rctx: RenderContext,
+  buttons: Button[],
+  game: GameState,
+  x: number,
+  y: number,
+  totalWidth: number,
+  hintedIndex: number | null = null
+): void {
   const { ctx, minDim } = rctx;
   const patches = getAvailablePatches(game);
-  const patchAreaWidth = totalWidth / 3;
+  const patchAreaWidth = totalWidth / game.rules.marketSize;
   const patchAreaHeight = scale(minDim, LAYOUT.patchPanelHeight);
   const patchMargin = scale(minDim, LAYOUT.gap.small);
 
   patches.forEach((patch, i) => {
     const patchX = x + i * patchAreaWidth;
-    const canBuy = game.players[getCurrentPlayerIndex(game)].buttons >= patch.buttonCost;
+    const player = game.players[getCurrentPlayerIndex(game)];
+    const canAfford = player.buttons >= patch.buttonCost;
+    const fits = canPatchFit(player.board, patch);
+    const canBuy = canAfford && fits;
 
-    // Background
-    ctx.fillStyle = canBuy ? COLORS.panel : COLORS.buttonDisabled;
+    // Background (affordable patches without a legal spot get their own state)
+    ctx.fillStyle = canBuy ? COLORS.panel : canAfford ? COLORS.patchNoFit : COLORS.buttonDisabled;
     ctx.fillRect(patchX + patchMargin, y, patchAreaWidth - patchMargin * 2, patchAreaHeight);
 
+    if (i === hintedIndex) {
+      ctx.strokeStyle = COLORS.hint;
+      ctx.lineWidth = 3;
+      ctx.strokeRect(patchX + patchMargin, y, patchAreaWidth - patchMargin * 2, patchAreaHeight);
+    }
+
     // Draw patch shape
     const shape = patch.shape;
     const maxDim = Math.max(shape.length, shape[0].length);
@@ -749,6 +1043,11 @@ function renderAvailablePatches(rctx: RenderContext, buttons: Button[], game: Ga
     const infoY = y + patchAreaHeight - scale(minDim, LAYOUT.gap.medium);
     ctx.fillText(`Cost: ${patch.buttonCost}  Time: ${patch.timeCost}`, patchX + patchAreaWidth / 2, infoY);
 
+    if (canAfford && !fits) {
+      ctx.font = font(minDim, 'small', 'bold');
+      ctx.fillText("DOESN'T FIT", patchX + patchAreaWidth / 2, y + patchAreaHeight / 2);
+    }
+
     if (canBuy) {
       buttons.push({
         x: patchX + patchMargin, y, width: patchAreaWidth - patchMargin * 2, height: patchAreaHeight,
@@ -805,7 +1104,7 @@ function renderPlacementAnimation(rctx: RenderContext, state: AppState): void {
   const { boardLeft, boardTop, boardSize } = layout;
 
   // Render board with the animated patch
-  renderBoardNew(ctx, player, boardLeft, boardTop, boardSize, undefined, {
+  renderBoardNew(ctx, player, game.boardSize, boardLeft, boardTop, boardSize, undefined, {
     patchId: anim.patchId,
     params: animParams,
   });
@@ -823,7 +1122,7 @@ function renderPlacementScreen(rctx: RenderContext, buttons: Button[], state: Ap
   const { ctx, width, height, minDim } = rctx;
   const game = state.gameState;
   const placement = state.placementState;
-  const currentPlayerIdx = getCurrentPlayerIndex(game);
+  const currentPlayerIdx = getActivePlayerIndex(state, game);
   const player = game.players[currentPlayerIdx];
   const isLeatherPatch = state.placingLeatherPatch !== null;
 
@@ -870,14 +1169,16 @@ function renderPlacementScreen(rctx: RenderContext, buttons: Button[], state: Ap
   const layout = getBoardLayout(width, height, game.boardSize);
   const { boardLeft, boardTop, boardSize } = layout;
 
-  renderBoardWithGhost(ctx, player, boardLeft, boardTop, boardSize, patch, placement, canPlace);
+  // Cells this placement would cut off from every patch still to come
+  const deadCells = canPlace ? findNewlyDeadCells(game, currentPlayerIdx, patch, placement) : [];
+  renderBoardWithGhost(ctx, player, game.boardSize, boardLeft, boardTop, boardSize, patch, placement, canPlace, undefined, deadCells);
 
   // Patch info panel (below board)
   const infoY = boardTop + boardSize + scale(minDim, 0.03125);
   const filledCells = shape.flat().filter(cell => cell === 1).length;
-  const scoreDelta = (filledCells * 2) - patch.buttonCost;
+  const scoreDelta = (filledCells * game.rules.emptyCellPenalty) - patch.buttonCost;
   const infoText = isLeatherPatch
-    ? 'Score: +2'
+    ? `Score: +${game.rules.emptyCellPenalty}`
     : `Cells: ${filledCells} | Cost: ${patch.buttonCost} | Time: ${patch.timeCost} | Income: ${patch.buttonIncome} | Score: ${scoreDelta >= 0 ? '+' : ''}${scoreDelta}`;
 
   ctx.fillStyle = COLORS.text;
@@ -885,13 +1186,23 @@ function renderPlacementScreen(rctx: RenderContext, buttons: Button[], state: Ap
   ctx.textAlign = 'center';
   ctx.fillText(infoText, width / 2, infoY);
 
+  // What the buy does at this placement (blank while the patch does not fit)
+  const previewY = infoY + scale(minDim, 0.0225);
+  if (!isLeatherPatch) {
+    const preview = previewPlacement(game, currentPlayerIdx, placement.patchIndex, placement);
+    if (preview) {
+      ctx.font = font(minDim, 'tiny');
+      ctx.fillText(describePlacementPreview(preview), width / 2, previewY);
+    }
+  }
+
   // Button dimensions
   const btnHeight = scale(minDim, LAYOUT.buttonHeight.medium);
   const btnGap = scale(minDim, LAYOUT.gap.medium);
   const btnWidth = (boardSize - btnGap) / 2;
 
   // Rotate/Reflect buttons right under patch info
-  const rotateRowY = infoY + scale(minDim, LAYOUT.gap.large);
+  const rotateRowY = previewY + scale(minDim, LAYOUT.gap.large);
 
   // Rotate button (left)
   ctx.fillStyle = COLORS.panel;
@@ -954,18 +1265,38 @@ function renderPlacementScreen(rctx: RenderContext, buttons: Button[], state: Ap
   }
 }
 
+function describePlacementPreview(preview: PlacementPreview): string {
+  const parts = [
+    `Buttons ${preview.buttons[0]}→${preview.buttons[1]}`,
+    `Income ${preview.income[0]}→${preview.income[1]}`,
+    `Space ${preview.position[0]}→${preview.position[1]}`,
+    `Penalty ${preview.emptyCellPenalty[0]}→${preview.emptyCellPenalty[1]}`,
+  ];
+  if (preview.fragmentation[0] > 0 || preview.fragmentation[1] > 0) {
+    parts.push(`Dead penalty ${preview.fragmentation[0]}→${preview.fragmentation[1]}`);
+  }
+  const crossed: string[] = [];
+  if (preview.incomeCheckpointsCrossed > 0) crossed.push(`${preview.incomeCheckpointsCrossed} income`);
+  if (preview.leatherPatchesCrossed > 0) crossed.push(`${preview.leatherPatchesCrossed} leather`);
+  if (crossed.length > 0) parts.push(`Crosses ${crossed.join(', ')}`);
+  if (preview.completesBonusSquare) parts.push('Completes bonus square');
+  return parts.join(' | ');
+}
+
 function renderBoardWithGhost(
   ctx: CanvasRenderingContext2D,
   player: Player,
+  boardCells: BoardSize,
   x: number,
   y: number,
   size: number,
   patch: Patch,
   placement: PlacementState,
   canPlace: boolean,
-  scaleVal?: number
+  scaleVal?: number,
+  deadCells?: BoardCell[]
 ): void {
-  renderBoardNew(ctx, player, x, y, size, { patch, placement, canPlace, scale: scaleVal });
+  renderBoardNew(ctx, player, boardCells, x, y, size, { patch, placement, canPlace, scale: scaleVal, deadCells });
 }
 
 function renderGameEndScreen(rctx: RenderContext, buttons: Button[], state: AppState): void {
@@ -997,7 +1328,7 @@ function renderGameEndScreen(rctx: RenderContext, buttons: Button[], state: AppS
 
   for (let i = 0; i < 2; i++) {
     const player = game.players[i];
-    const score = calculateScore(player);
+    const score = calculateScore(player, game.rules);
     const isWinner = winner === i;
 
     const yPos = height * 0.15 + i * panelGap;
@@ -1013,7 +1344,7 @@ function renderGameEndScreen(rctx: RenderContext, buttons: Button[], state: AppS
 
     ctx.font = font(minDim, 'tiny');
     const emptySpaces = countEmptySpaces(player.board);
-    ctx.fillText(`(${player.buttons} btns - ${emptySpaces * 2} penalty) · Tap to preview`, centerX, yPos + scale(minDim, LAYOUT.gap.large));
+    ctx.fillText(`(${player.buttons} btns - ${emptySpaces * game.rules.emptyCellPenalty} penalty) · Tap to preview`, centerX, yPos + scale(minDim, LAYOUT.gap.large));
 
     const playerIdx = i;
     buttons.push({
@@ -1024,12 +1355,15 @@ function renderGameEndScreen(rctx: RenderContext, buttons: Button[], state: AppS
     });
   }
 
-  // Tie message
+  // Tie message, or how a tie on points was broken
   let tabY = height * 0.32;
-  if (winner === 'tie') {
+  if (winner === 'tie' || isTieBreakWin(game)) {
+    const message = winner === 'tie'
+      ? "It's a tie!"
+      : `${game.players[winner].name} won on tie-break: finished first`;
     ctx.fillStyle = COLORS.text;
     ctx.font = font(minDim, 'normal', 'bold');
-    ctx.fillText("It's a tie!", centerX, tabY - scale(minDim, LAYOUT.gap.medium));
+    ctx.fillText(message, centerX, tabY - scale(minDim, LAYOUT.gap.medium));
     tabY += scale(minDim, LAYOUT.admin.buttonGap);
   }
 
@@ -1037,13 +1371,13 @@ function renderGameEndScreen(rctx: RenderContext, buttons: Button[], state: AppS
   const tabWidth = scale(minDim, LAYOUT.tab.width);
   const tabHeight = scale(minDim, LAYOUT.tab.height);
   const tabGap = scale(minDim, LAYOUT.tab.gap);
-  const tabsWidth = tabWidth * 2 + tabGap;
-  const tabsX = centerX - tabsWidth / 2;
-
-  const tabs: Array<{ label: string; value: 'summary' | 'charts' }> = [
+  const tabs: Array<{ label: string; value: GameEndTab }> = [
     { label: 'Summary', value: 'summary' },
     { label: 'Charts', value: 'charts' },
+    { label: 'Analysis', value: 'analysis' },
   ];
+  const tabsWidth = tabWidth * tabs.length + tabGap * (tabs.length - 1);
+  const tabsX = centerX - tabsWidth / 2;
 
   tabs.forEach((tab, i) => {
     const tx = tabsX + i * (tabWidth + tabGap);
@@ -1103,6 +1437,22 @@ function renderGameEndScreen(rctx: RenderContext, buttons: Button[], state: AppS
         `Leather: ${game.players[0].name} ${stats.leatherPatches[0]} | ${game.players[1].name} ${stats.leatherPatches[1]}`,
         centerX, y
       );
+      y += lineHeight;
+
+      ctx.fillText(
+        `Hints: ${game.players[0].name} ${stats.hintsUsed[0]} | ${game.players[1].name} ${stats.hintsUsed[1]}`,
+        centerX, y
+      );
+    }
+  } else if (state.gameEndTab === 'analysis') {
+    if (state.gameAnalysis) {
+      renderAnalysis(rctx, buttons, game, state.gameAnalysis, contentY, contentHeight);
+    } else {
+      // Computed in the background when the tab is first opened
+      ctx.fillStyle = COLORS.text;
+      ctx.font = font(minDim, 'normal');
+      ctx.textAlign = 'center';
+      ctx.fillText('Analysing...', centerX, contentY + contentHeight / 2);
     }
   } else {
     // Charts tab
@@ -1114,28 +1464,124 @@ function renderGameEndScreen(rctx: RenderContext, buttons: Button[], state: AppS
     }
   }
 
-  // Play again button
-  const btnWidth = scale(minDim, LAYOUT.buttonWidth.large);
+  // Play again button (on the right of the replay buttons when history is available)
   const btnHeight = playBtnHeight;
-  const btnX = centerX - btnWidth / 2;
+  const btnGap = scale(minDim, LAYOUT.gap.medium);
+  const btnWidth = state.historyManager ? scale(minDim, LAYOUT.buttonWidth.medium) : scale(minDim, LAYOUT.buttonWidth.large);
+  const btnX = state.historyManager ? centerX + btnWidth + btnGap * 1.5 : centerX - btnWidth / 2;
   const btnY = height - btnHeight - scale(minDim, LAYOUT.gap.large);
 
+  if (state.historyManager) {
+    const replayButtons = [
+      { text: 'REPLAY', label: 'Replay', action: openReplay },
+      { text: 'COPY REPLAY', label: 'Copy Replay', action: copyReplayLink },
+      { text: 'COPY NOTATION', label: 'Copy Notation', action: copyNotation },
+    ];
+    replayButtons.forEach((btn, i) => {
+      const bx = centerX - btnWidth * 2 - btnGap * 1.5 + i * (btnWidth + btnGap);
+      ctx.fillStyle = COLORS.panel;
+      ctx.fillRect(bx, btnY, btnWidth, btnHeight);
+
+      ctx.fillStyle = COLORS.text;
+      ctx.font = font(minDim, 'small', 'bold');
+      ctx.textAlign = 'center';
+      ctx.fillText(btn.text, bx + btnWidth / 2, btnY + btnHeight / 2 + scale(minDim, 0.00625));
+
+      buttons.push({
+        x: bx, y: btnY, width: btnWidth, height: btnHeight,
+        label: btn.label,
+        action: btn.action,
+        type: 'standard',
+      });
+    });
+  }
+
   ctx.fillStyle = COLORS.button;
   ctx.fillRect(btnX, btnY, btnWidth, btnHeight);
 
   ctx.fillStyle = COLORS.text;
   ctx.font = font(minDim, 'button', 'bold');
   ctx.textAlign = 'center';
-  ctx.fillText('PLAY AGAIN', centerX, btnY + btnHeight / 2 + scale(minDim, 0.00875));
+  ctx.fillText(state.viewingLibraryGame ? 'BACK' : 'PLAY AGAIN', btnX + btnWidth / 2, btnY + btnHeight / 2 + scale(minDim, 0.00875));
 
   buttons.push({
     x: btnX, y: btnY, width: btnWidth, height: btnHeight,
-    label: 'Play Again',
+    label: state.viewingLibraryGame ? 'Back' : 'Play Again',
     action: playAgain,
     type: 'standard',
   });
 }
 
+// Accuracy per player, then the inaccuracies and blunders, each opening the replay at its turn
+function renderAnalysis(
+  rctx: RenderContext,
+  buttons: Button[],
+  game: GameState,
+  analysis: GameAnalysis,
+  y: number,
+  maxHeight: number
+): void {
+  const { ctx, width, minDim } = rctx;
+  const centerX = width / 2;
+
+  ctx.fillStyle = COLORS.text;
+  ctx.font = font(minDim, 'small', 'bold');
+  ctx.textAlign = 'center';
+  ctx.fillText(
+    `Accuracy: ${game.players[0].name} ${analysis.accuracy[0]}% | ${game.players[1].name} ${analysis.accuracy[1]}%`,
+    centerX, y + scale(minDim, LAYOUT.gap.large)
+  );
+
+  const flagged = analysis.moves.filter(move => move.quality === 'inaccuracy' || move.quality === 'blunder');
+  const rowHeight = scale(minDim, 0.04);
+  const rowGap = scale(minDim, LAYOUT.gap.small);
+  const rowWidth = Math.min(width - scale(minDim, LAYOUT.boardPadding * 2), scale(minDim, 0.7));
+  const rowX = centerX - rowWidth / 2;
+  const listTop = y + scale(minDim, 0.05);
+  const listBottom = y + maxHeight;
+
+  ctx.font = font(minDim, 'info');
+  if (flagged.length === 0) {
+    ctx.fillText('No inaccuracies or blunders', centerX, listTop + rowHeight / 2);
+    return;
+  }
+
+  // Keep the last row for the overflow count when not everything fits
+  let rowsFit = Math.floor((listBottom - listTop + rowGap) / (rowHeight + rowGap));
+  if (rowsFit < flagged.length) rowsFit--;
+
+  flagged.slice(0, Math.max(0, rowsFit)).forEach((move, i) => {
+    const rowY = listTop + i * (rowHeight + rowGap);
+    const isBlunder = move.quality === 'blunder';
+    ctx.fillStyle = COLORS.panel;
+    ctx.fillRect(rowX, rowY, rowWidth, rowHeight);
+    ctx.fillStyle = isBlunder ? COLORS.blunder : COLORS.inaccuracy;
+    ctx.fillRect(rowX, rowY, scale(minDim, 0.01), rowHeight);
+
+    ctx.fillStyle = COLORS.text;
+    ctx.font = font(minDim, 'info');
+    const text = `Turn ${move.turn} ${game.players[move.playerIndex].name}: ${describeTurn(move.played)}` +
+      ` (-${move.scoreLoss}) ${isBlunder ? 'Blunder' : 'Inaccuracy'} · best ${describeTurn(move.best)}`;
+    ctx.fillText(text, centerX, rowY + rowHeight / 2 + scale(minDim, 0.00625));
+
+    buttons.push({
+      x: rowX, y: rowY, width: rowWidth, height: rowHeight,
+      label: `Replay turn ${move.turn}`,
+      action: () => openAnalyzedTurn(move),
+      type: 'standard',
+    });
+  });
+
+  if (rowsFit < flagged.length) {
+    const moreY = listTop + Math.max(0, rowsFit) * (rowHeight + rowGap);
+    ctx.fillText(`+${flagged.length - Math.max(0, rowsFit)} more`, centerX, moreY + rowHeight / 2);
+  }
+}
+
+function describeTurn(action: TurnAction): string {
+  return action.type === 'buyPatch' ? `buy slot ${action.patchIndex + 1}` : `skip +${action.spacesSkipped}`;
+}
+
 function countEmptySpaces(board: (number | null)[][]): number {
   let count = 0;
   for (const row of board) {
@@ -1165,16 +1611,16 @@ function renderBoardPreview(rctx: RenderContext, buttons: Button[], state: AppSt
   ctx.fillText(`${player.name}'s Board`, centerX, height * 0.08);
 
   // Score summary
-  const score = calculateScore(player);
+  const score = calculateScore(player, game.rules);
   const emptySpaces = countEmptySpaces(player.board);
   ctx.font = font(minDim, 'button');
-  ctx.fillText(`Score: ${score} (${player.buttons} buttons - ${emptySpaces * 2} penalty)`, centerX, height * 0.14);
+  ctx.fillText(`Score: ${score} (${player.buttons} buttons - ${emptySpaces * game.rules.emptyCellPenalty} penalty)`, centerX, height * 0.14);
 
   // Render board large and centered (85% of width, 65% of height)
   const boardSize = Math.min(width * 0.85, height * 0.65);
   const boardX = centerX - boardSize / 2;
   const boardY = height * 0.18;
-  renderBoard(ctx, player, boardX, boardY, boardSize);
+  renderBoard(ctx, player, game.boardSize, boardX, boardY, boardSize);
 
   // Back button
   const btnWidth = scale(minDim, LAYOUT.buttonWidth.small);
@@ -1197,6 +1643,377 @@ function renderBoardPreview(rctx: RenderContext, buttons: Button[], state: AppSt
   });
 }
 
+function renderReplayScreen(rctx: RenderContext, buttons: Button[], state: AppState): void {
+  if (!state.replay) return;
+
+  const { ctx, width, height, minDim } = rctx;
+  const replay = state.replay;
+  const game = replay.gameState;
+  const focusPlayerIdx = getReplayFocusPlayer(replay);
+
+  // Player panels and market are display-only, so their hit areas are discarded
+  const displayOnlyButtons: Button[] = [];
+  const panelHeight = scale(minDim, LAYOUT.panelHeight);
+  renderPlayerPanels(rctx, displayOnlyButtons, game, getCurrentPlayerIndex(game), panelHeight);
+
+  const layout = getBoardLayout(width, height, game.boardSize);
+  const { boardLeft, boardTop, boardSize } = layout;
+
+  // Fill background below panels with the focused player's color
+  ctx.fillStyle = getPlayerColor(focusPlayerIdx, false);
+  ctx.fillRect(0, panelHeight, width, height - panelHeight);
+
+  const borderWidth = scale(minDim, LAYOUT.boardBorderWidth);
+  ctx.fillStyle = getPlayerColor(focusPlayerIdx, true);
+  ctx.fillRect(
+    boardLeft - borderWidth,
+    boardTop - borderWidth,
+    boardSize + borderWidth * 2,
+    boardSize + borderWidth * 2
+  );
+
+  renderBoard(ctx, game.players[focusPlayerIdx], game.boardSize, boardLeft, boardTop, boardSize);
+
+  const patchesTop = boardTop + boardSize + scale(minDim, LAYOUT.gap.large);
+  renderAvailablePatches(rctx, displayOnlyButtons, game, boardLeft, patchesTop, boardSize);
+
+  // Playback controls (same rows as the skip and map buttons on the game screen)
+  const btnGap = scale(minDim, LAYOUT.gap.medium);
+  const mainRowHeight = scale(minDim, LAYOUT.buttonHeight.medium);
+  const mainRowY = height - mainRowHeight - scale(minDim, LAYOUT.gap.large);
+  const infoRowHeight = scale(minDim, LAYOUT.buttonHeight.small);
+  const infoRowY = mainRowY - infoRowHeight - btnGap;
+  const thirdWidth = (boardSize - btnGap * 2) / 3;
+
+  const mainRow = [
+    { text: '◀', label: 'Step Back', action: replayStepBackward },
+    { text: replay.isPlaying ? 'PAUSE' : 'PLAY', label: 'Play/Pause', action: toggleReplayPlayback },
+    { text: '▶', label: 'Step Forward', action: replayStepForward },
+  ];
+  const infoRow = [
+    { text: `SPEED ${replay.playbackSpeed}x`, label: 'Speed', action: cycleReplaySpeed },
+    { text: `TURN ${getReplayTurn(replay)}/${getReplayTurnCount(replay)}`, label: 'Jump to Turn', action: jumpToReplayTurn },
+    { text: 'EXIT', label: 'Exit Replay', action: closeReplay },
+  ];
+
+  mainRow.forEach((btn, i) => {
+    const bx = boardLeft + i * (thirdWidth + btnGap);
+    ctx.fillStyle = i === 1 ? COLORS.button : COLORS.panel;
+    ctx.fillRect(bx, mainRowY, thirdWidth, mainRowHeight);
+    ctx.fillStyle = COLORS.text;
+    ctx.font = font(minDim, 'button', 'bold');
+    ctx.textAlign = 'center';
+    ctx.fillText(btn.text, bx + thirdWidth / 2, mainRowY + mainRowHeight / 2 + scale(minDim, 0.00875));
+    buttons.push({ x: bx, y: mainRowY, width: thirdWidth, height: mainRowHeight, label: btn.label, action: btn.action, type: 'standard' });
+  });
+
+  infoRow.forEach((btn, i) => {
+    const bx = boardLeft + i * (thirdWidth + btnGap);
+    ctx.fillStyle = COLORS.panel;
+    ctx.fillRect(bx, infoRowY, thirdWidth, infoRowHeight);
+    ctx.fillStyle = COLORS.text;
+    ctx.font = font(minDim, 'info', 'bold');
+    ctx.textAlign = 'center';
+    ctx.fillText(btn.text, bx + thirdWidth / 2, infoRowY + infoRowHeight / 2 + scale(minDim, 0.00625));
+    buttons.push({ x: bx, y: infoRowY, width: thirdWidth, height: infoRowHeight, label: btn.label, action: btn.action, type: 'standard' });
+  });
+}
+
+function renderRecentGamesScreen(rctx: RenderContext, buttons: Button[], state: AppState): void {
+  const { ctx, width, height, minDim } = rctx;
+  const centerX = width / 2;
+
+  // Title
+  ctx.fillStyle = COLORS.text;
+  ctx.font = font(minDim, 'heading', 'bold');
+  ctx.textAlign = 'center';
+  ctx.fillText('RECENT GAMES', centerX, height * 0.08);
+
+  const listWidth = Math.min(width - scale(minDim, LAYOUT.boardPadding * 2), scale(minDim, 0.9));
+  const listX = centerX - listWidth / 2;
+  const gap = scale(minDim, LAYOUT.gap.medium);
+
+  // Player filter button, with the notation import beside it
+  const filterHeight = scale(minDim, LAYOUT.buttonHeight.small);
+  const filterY = height * 0.11;
+  const pasteWidth = (listWidth - gap) / 3;
+  const filterWidth = listWidth - gap - pasteWidth;
+  ctx.fillStyle = state.recentGamesFilter ? COLORS.panelActive : COLORS.panel;
+  ctx.fillRect(listX, filterY, filterWidth, filterHeight);
+  ctx.fillStyle = COLORS.text;
+  ctx.font = font(minDim, 'info', 'bold');
+  ctx.fillText(
+    state.recentGamesFilter ? `PLAYER: ${state.recentGamesFilter} (tap to change)` : 'FILTER BY PLAYER',
+    listX + filterWidth / 2, filterY + filterHeight / 2 + scale(minDim, 0.00625)
+  );
+  buttons.push({
+    x: listX, y: filterY, width: filterWidth, height: filterHeight,
+    label: 'Filter by Player',
+    action: setRecentGamesFilter,
+    type: 'standard',
+  });
+
+  const pasteX = listX + filterWidth + gap;
+  ctx.fillStyle = COLORS.panel;
+  ctx.fillRect(pasteX, filterY, pasteWidth, filterHeight);
+  ctx.fillStyle = COLORS.text;
+  ctx.fillText('PASTE NOTATION', pasteX + pasteWidth / 2, filterY + filterHeight / 2 + scale(minDim, 0.00625));
+  buttons.push({
+    x: pasteX, y: filterY, width: pasteWidth, height: filterHeight,
+    label: 'Paste Notation',
+    action: pasteNotation,
+    type: 'standard',
+  });
+
+  // Bottom navigation
+  const navHeight = scale(minDim, LAYOUT.buttonHeight.medium);
+  const navY = height - navHeight - scale(minDim, LAYOUT.gap.large);
+  const listTop = filterY + filterHeight + gap;
+  const listBottom = navY - gap;
+
+  if (state.recentGames === null) {
+    ctx.font = font(minDim, 'normal');
+    ctx.fillText('Loading...', centerX, (listTop + listBottom) / 2);
+  } else {
+    const records = filterGameRecords(state.recentGames, state.recentGamesFilter);
+    const rowHeight = scale(minDim, LAYOUT.scorePanel.height);
+    const rowsPerPage = Math.max(1, Math.floor((listBottom - listTop + gap) / (rowHeight + gap)));
+    const pageCount = Math.max(1, Math.ceil(records.length / rowsPerPage));
+    const page = Math.min(state.recentGamesPage, pageCount - 1);
+
+    if (records.length === 0) {
+      ctx.font = font(minDim, 'normal');
+      ctx.fillText(state.recentGamesFilter ? 'No games for this player' : 'No finished games yet', centerX, (listTop + listBottom) / 2);
+    }
+
+    records.slice(page * rowsPerPage, (page + 1) * rowsPerPage).forEach((record, i) => {
+      renderRecentGameRow(rctx, buttons, record, listX, listTop + i * (rowHeight + gap), listWidth, rowHeight);
+    });
+
+    // Page buttons share the bottom row with the back button
+    const navBtnWidth = (listWidth - gap * 2) / 3;
+    if (page > 0) {
+      ctx.fillStyle = COLORS.panel;
+      ctx.fillRect(listX, navY, navBtnWidth, navHeight);
+      ctx.fillStyle = COLORS.text;
+      ctx.font = font(minDim, 'normal', 'bold');
+      ctx.textAlign = 'center';
+      ctx.fillText('◀ PREV', listX + navBtnWidth / 2, navY + navHeight / 2 + scale(minDim, 0.0075));
+      buttons.push({ x: listX, y: navY, width: navBtnWidth, height: navHeight, label: 'Previous Page', action: () => changeRecentGamesPage(-1), type: 'standard' });
+    }
+    if (page < pageCount - 1) {
+      const nextX = listX + listWidth - navBtnWidth;
+      ctx.fillStyle = COLORS.panel;
+      ctx.fillRect(nextX, navY, navBtnWidth, navHeight);
+      ctx.fillStyle = COLORS.text;
+      ctx.font = font(minDim, 'normal', 'bold');
+      ctx.textAlign = 'center';
+      ctx.fillText('NEXT ▶', nextX + navBtnWidth / 2, navY + navHeight / 2 + scale(minDim, 0.0075));
+      buttons.push({ x: nextX, y: navY, width: navBtnWidth, height: navHeight, label: 'Next Page', action: () => changeRecentGamesPage(1), type: 'standard' });
+    }
+  }
+
+  // Back button
+  const backBtnWidth = scale(minDim, LAYOUT.buttonWidth.small);
+  const backBtnX = centerX - backBtnWidth / 2;
+  ctx.fillStyle = COLORS.button;
+  ctx.fillRect(backBtnX, navY, backBtnWidth, navHeight);
+  ctx.fillStyle = COLORS.text;
+  ctx.font = font(minDim, 'normal', 'bold');
+  ctx.textAlign = 'center';
+  ctx.fillText('BACK', centerX, navY + navHeight / 2 + scale(minDim, 0.0075));
+  buttons.push({
+    x: backBtnX, y: navY, width: backBtnWidth, height: navHeight,
+    label: 'Back',
+    action: backToSetup,
+    type: 'standard',
+  });
+}
+
+function renderHouseRulesScreen(rctx: RenderContext, buttons: Button[], state: AppState): void {
+  const { ctx, width, height, minDim } = rctx;
+  const centerX = width / 2;
+  const rules = state.houseRules;
+
+  // Title
+  ctx.fillStyle = COLORS.text;
+  ctx.font = font(minDim, 'heading', 'bold');
+  ctx.textAlign = 'center';
+  ctx.fillText('HOUSE RULES', centerX, height * 0.08);
+
+  const rowWidth = Math.min(width - scale(minDim, LAYOUT.boardPadding * 2), scale(minDim, 0.9));
+  const rowX = centerX - rowWidth / 2;
+  const rowHeight = scale(minDim, LAYOUT.buttonHeight.small);
+  const gap = scale(minDim, LAYOUT.gap.medium);
+  const stepWidth = rowHeight * 1.2;
+
+  // Preset selector: ◀ name ▶
+  let rowY = height * 0.12;
+  ctx.fillStyle = COLORS.panelActive;
+  ctx.fillRect(rowX, rowY, rowWidth, rowHeight);
+  ctx.fillStyle = COLORS.text;
+  ctx.font = font(minDim, 'normal', 'bold');
+  ctx.fillText(getRulePresetName(rules), centerX, rowY + rowHeight / 2 + scale(minDim, 0.0075));
+  ctx.fillText('◀', rowX + stepWidth / 2, rowY + rowHeight / 2 + scale(minDim, 0.0075));
+  ctx.fillText('▶', rowX + rowWidth - stepWidth / 2, rowY + rowHeight / 2 + scale(minDim, 0.0075));
+  buttons.push({ x: rowX, y: rowY, width: stepWidth, height: rowHeight, label: 'Previous Preset', action: () => cycleRulePreset(-1), type: 'standard' });
+  buttons.push({ x: rowX + rowWidth - stepWidth, y: rowY, width: stepWidth, height: rowHeight, label: 'Next Preset', action: () => cycleRulePreset(1), type: 'standard' });
+  rowY += rowHeight + gap * 2;
+
+  // Numeric rules with − / + steppers
+  const numericRows: { key: NumericRule; label: string }[] = [
+    { key: 'startingButtons', label: 'Starting buttons' },
+    { key: 'timeTrackLength', label: 'Time track length' },
+    { key: 'marketSize', label: 'Patches to choose from' },
+    { key: 'emptyCellPenalty', label: 'Penalty per empty square' },
+    { key: 'bonus7x7Points', label: '7x7 bonus' },
+  ];
+  for (const row of numericRows) {
+    ctx.fillStyle = COLORS.panel;
+    ctx.fillRect(rowX, rowY, rowWidth, rowHeight);
+
+    ctx.fillStyle = COLORS.text;
+    ctx.font = font(minDim, 'small');
+    ctx.textAlign = 'left';
+    ctx.fillText(row.label, rowX + gap, rowY + rowHeight / 2 + scale(minDim, 0.00625));
+
+    const minusX = rowX + rowWidth - stepWidth * 3;
+    const plusX = rowX + rowWidth - stepWidth;
+    ctx.textAlign = 'center';
+    ctx.font = font(minDim, 'normal', 'bold');
+    ctx.fillText(String(rules[row.key]), minusX + stepWidth * 1.5, rowY + rowHeight / 2 + scale(minDim, 0.0075));
+
+    ctx.fillStyle = COLORS.button;
+    ctx.fillRect(minusX, rowY, stepWidth, rowHeight);
+    ctx.fillRect(plusX, rowY, stepWidth, rowHeight);
+    ctx.fillStyle = COLORS.text;
+    ctx.fillText('−', minusX + stepWidth / 2, rowY + rowHeight / 2 + scale(minDim, 0.0075));
+    ctx.fillText('+', plusX + stepWidth / 2, rowY + rowHeight / 2 + scale(minDim, 0.0075));
+
+    buttons.push({ x: minusX, y: rowY, width: stepWidth, height: rowHeight, label: `Decrease ${row.label}`, action: () => adjustRule(row.key, -1), type: 'standard' });
+    buttons.push({ x: plusX, y: rowY, width: stepWidth, height: rowHeight, label: `Increase ${row.label}`, action: () => adjustRule(row.key, 1), type: 'standard' });
+    rowY += rowHeight + gap;
+  }
+
+  // Track position lists, edited by tapping the row
+  const positionRows: { key: 'incomePositions' | 'leatherPatchPositions'; label: string }[] = [
+    { key: 'incomePositions', label: 'Income at' },
+    { key: 'leatherPatchPositions', label: 'Leather patches at' },
+  ];
+  for (const row of positionRows) {
+    ctx.fillStyle = COLORS.panel;
+    ctx.fillRect(rowX, rowY, rowWidth, rowHeight);
+
+    ctx.fillStyle = COLORS.text;
+    ctx.font = font(minDim, 'small');
+    ctx.textAlign = 'left';
+    const positions = rules[row.key].length > 0 ? rules[row.key].join(', ') : 'none';
+    ctx.fillText(`${row.label}: ${positions}`, rowX + gap, rowY + rowHeight / 2 + scale(minDim, 0.00625), rowWidth - gap * 2);
+    ctx.textAlign = 'center';
+
+    buttons.push({ x: rowX, y: rowY, width: rowWidth, height: rowHeight, label: `Edit ${row.label}`, action: () => editRulePositions(row.key), type: 'standard' });
+    rowY += rowHeight + gap;
+  }
+
+  // Rules with fixed options, cycled by tapping the row
+  const choiceRows: { key: ChoiceRule; label: string }[] = [
+    { key: 'trackTieOrder', label: 'Ties on the time track' },
+    { key: 'scoreTieBreak', label: 'Equal final scores' },
+    { key: 'neutralTokenStart', label: 'Neutral token starts' },
+  ];
+  for (const row of choiceRows) {
+    const choice = RULE_CHOICES[row.key].find(c => c.value === rules[row.key]);
+
+    ctx.fillStyle = COLORS.panel;
+    ctx.fillRect(rowX, rowY, rowWidth, rowHeight);
+
+    ctx.fillStyle = COLORS.text;
+    ctx.font = font(minDim, 'small');
+    ctx.textAlign = 'left';
+    ctx.fillText(row.label, rowX + gap, rowY + rowHeight / 2 + scale(minDim, 0.00625));
+    ctx.textAlign = 'right';
+    ctx.font = font(minDim, 'small', 'bold');
+    ctx.fillText(choice?.label ?? '', rowX + rowWidth - gap, rowY + rowHeight / 2 + scale(minDim, 0.00625));
+    ctx.textAlign = 'center';
+
+    buttons.push({ x: rowX, y: rowY, width: rowWidth, height: rowHeight, label: `Change ${row.label}`, action: () => cycleRuleChoice(row.key), type: 'standard' });
+    rowY += rowHeight + gap;
+  }
+
+  // Done button
+  const doneBtnWidth = scale(minDim, LAYOUT.buttonWidth.small);
+  const doneBtnHeight = scale(minDim, LAYOUT.buttonHeight.medium);
+  const doneBtnX = centerX - doneBtnWidth / 2;
+  const doneBtnY = height - doneBtnHeight - scale(minDim, LAYOUT.gap.large);
+  ctx.fillStyle = COLORS.button;
+  ctx.fillRect(doneBtnX, doneBtnY, doneBtnWidth, doneBtnHeight);
+  ctx.fillStyle = COLORS.text;
+  ctx.font = font(minDim, 'normal', 'bold');
+  ctx.textAlign = 'center';
+  ctx.fillText('DONE', centerX, doneBtnY + doneBtnHeight / 2 + scale(minDim, 0.0075));
+  buttons.push({
+    x: doneBtnX, y: doneBtnY, width: doneBtnWidth, height: doneBtnHeight,
+    label: 'Done',
+    action: backToSetup,
+    type: 'standard',
+  });
+}
+
+function renderRecentGameRow(
+  rctx: RenderContext,
+  buttons: Button[],
+  record: GameRecord,
+  x: number,
+  y: number,
+  rowWidth: number,
+  rowHeight: number
+): void {
+  const { ctx, minDim } = rctx;
+  const gap = scale(minDim, LAYOUT.gap.small);
+
+  ctx.fillStyle = COLORS.panel;
+  ctx.fillRect(x, y, rowWidth, rowHeight);
+
+  // Action buttons on the right: replay, summary, delete
+  const actionWidth = rowHeight * 1.2;
+  const actions = [
+    { text: 'REPLAY', label: 'Replay Game', action: () => openRecentGameReplay(record), color: COLORS.button },
+    { text: 'STATS', label: 'Game Summary', action: () => openRecentGameSummary(record), color: COLORS.panelActive },
+    { text: '✕', label: 'Delete Game', action: () => deleteRecentGame(record), color: '#c0392b' },
+  ];
+  const actionsX = x + rowWidth - actions.length * (actionWidth + gap);
+
+  actions.forEach((btn, i) => {
+    const bx = actionsX + i * (actionWidth + gap);
+    ctx.fillStyle = btn.color;
+    ctx.fillRect(bx, y + gap, actionWidth, rowHeight - gap * 2);
+    ctx.fillStyle = COLORS.text;
+    ctx.font = font(minDim, 'micro', 'bold');
+    ctx.textAlign = 'center';
+    ctx.fillText(btn.text, bx + actionWidth / 2, y + rowHeight / 2 + scale(minDim, 0.005));
+    buttons.push({ x: bx, y: y + gap, width: actionWidth, height: rowHeight - gap * 2, label: btn.label, action: btn.action, type: 'standard' });
+  });
+
+  // Names and final scores
+  const [name0, name1] = record.playerNames.map((name, i) => {
+    const level = record.computerPlayers?.[i] ?? null;
+    return level !== null ? `${name} (🤖 ${COMPUTER_LEVELS[level].label})` : name;
+  });
+  const [score0, score1] = record.finalScores;
+  const textX = x + scale(minDim, LAYOUT.gap.medium);
+  ctx.fillStyle = COLORS.text;
+  ctx.textAlign = 'left';
+  ctx.font = font(minDim, 'small', 'bold');
+  ctx.fillText(`${name0} ${score0} – ${score1} ${name1}`, textX, y + rowHeight * 0.42, actionsX - textX - gap);
+
+  // Date and duration
+  const date = new Date(record.finishedAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+  const duration = record.durationMs !== null ? ` · ${Math.max(1, Math.round(record.durationMs / 60000))} min` : '';
+  ctx.font = font(minDim, 'tiny');
+  ctx.fillText(`${date}${duration}`, textX, y + rowHeight * 0.78, actionsX - textX - gap);
+  ctx.textAlign = 'center';
+}
+
 function renderMapViewScreen(rctx: RenderContext, buttons: Button[], state: AppState, lastTappedTrackPos: number | null): void {
   if (!state.gameState) return;
 
@@ -1331,17 +2148,20 @@ function renderCircularTimeTrack(
     ctx.fillRect(x - leatherPatchSize / 2, y - leatherPatchSize / 2, leatherPatchSize, leatherPatchSize);
   }
 
-  // Draw player tokens
+  // Draw player tokens. Tokens sharing a space are stacked: the one that moves first
+  // (the last to arrive, under the official rule) sits on top, drawn last and outlined
   const playerTokenRadius = scale(minDim, LAYOUT.map.playerTokenRadius);
-  const tokenOffset = playerTokenRadius;
-  for (let i = 0; i < 2; i++) {
+  const tokenOffset = playerTokenRadius * 0.6;
+  const samePos = game.players[0].position === game.players[1].position;
+  const drawOrder: (0 | 1)[] = currentPlayerIdx === 0 ? [1, 0] : [0, 1];
+  for (const i of drawOrder) {
     const player = game.players[i];
     const pos = Math.min(player.position, trackLength);
     const angle = (pos / trackLength) * Math.PI * 2 - Math.PI / 2;
 
-    // Offset tokens if players on same position
-    const samePos = game.players[0].position === game.players[1].position;
-    const offset = samePos ? (i === 0 ? -tokenOffset : tokenOffset) : 0;
+    // The top token is shifted outward so both stay visible
+    const isTop = samePos && i === currentPlayerIdx;
+    const offset = samePos ? (isTop ? tokenOffset : -tokenOffset) : 0;
     const tokenRadiusPos = radius + offset;
 
     const x = centerX + Math.cos(angle) * tokenRadiusPos;
@@ -1352,6 +2172,11 @@ function renderCircularTimeTrack(
     ctx.beginPath();
     ctx.arc(x, y, playerTokenRadius, 0, Math.PI * 2);
     ctx.fill();
+    if (isTop) {
+      ctx.strokeStyle = COLORS.text;
+      ctx.lineWidth = 2;
+      ctx.stroke();
+    }
 
     // Player number inside token
     ctx.fillStyle = COLORS.text;
@@ -1520,14 +2345,14 @@ function renderToasts(rctx: RenderContext, toasts: Toast[]): void {
   toasts.forEach((toast, index) => {
     const y = startY + index * (toastHeight + toastGap);
     const age = Date.now() - toast.createdAt;
-    const opacity = calculateToastOpacity(age);
+    const opacity = calculateToastOpacity(age, toast.durationMs);
     renderSingleToast(rctx, toast.message, centerX, y, opacity);
   });
 }
 
-function calculateToastOpacity(age: number): number {
-  const FADE_START = 1500;  // Start fading at 1.5s
-  const FADE_DURATION = 500;  // Fade over 0.5s
+function calculateToastOpacity(age: number, duration: number): number {
+  const FADE_DURATION = 500;  // Fade over the last 0.5s
+  const FADE_START = duration - FADE_DURATION;
 
   if (age < FADE_START) return 1;
   const fadeProgress = (age - FADE_START) / FADE_DURATION;
@@ -1,13 +1,16 @@
-import type { Patch, PlacementState, Player, Shape } from '../types';
+import type { BoardSize, Patch, PlacementState, Player, Shape } from '../types';
 import { COLORS, getPatchColor } from '../colors';
 import { getTransformedShape } from '../shape-utils';
 import type { AnimationParams } from '../animations';
+import { getBonusSquareSize } from '../variants';
+import type { BoardCell } from '../board-analysis';
 
 export interface GhostOptions {
   patch: Patch;
   placement: PlacementState;
   canPlace: boolean;
   scale?: number;  // Animation scale (0-1), defaults to 1
+  deadCells?: BoardCell[];  // Empty cells the placement would leave dead, tinted
 }
 
 export interface AnimatedPatchOptions {
@@ -22,14 +25,14 @@ export interface AnimatedPatchOptions {
 export function renderBoard(
   ctx: CanvasRenderingContext2D,
   player: Player,
+  boardCells: BoardSize,
   x: number,
   y: number,
   size: number,
   ghost?: GhostOptions,
   animatedPatch?: AnimatedPatchOptions
 ): void {
-  const boardSize = player.board.length;
-  const cellSize = size / boardSize;
+  const cellSize = size / boardCells;
 
   // Cell padding as percentage of cell size (2%)
   const cellPadding = Math.max(1, cellSize * 0.02);
@@ -40,8 +43,8 @@ export function renderBoard(
 
   // Draw grid lines
   ctx.strokeStyle = COLORS.boardGrid;
-  for (let row = 0; row < boardSize; row++) {
-    for (let col = 0; col < boardSize; col++) {
+  for (let row = 0; row < boardCells; row++) {
+    for (let col = 0; col < boardCells; col++) {
       ctx.strokeRect(x + col * cellSize, y + row * cellSize, cellSize, cellSize);
     }
   }
@@ -110,11 +113,11 @@ export function renderBoard(
     }
   }
 
-  // Draw 7x7 bonus highlight if player has earned it
+  // Draw bonus square highlight if player has earned it
   if (player.bonus7x7Area !== null) {
     const bonusX = x + player.bonus7x7Area.x * cellSize;
     const bonusY = y + player.bonus7x7Area.y * cellSize;
-    const bonusSize = 7 * cellSize;
+    const bonusSize = getBonusSquareSize(boardCells) * cellSize;
 
     // Add glow effect
     ctx.shadowColor = COLORS.bonus7x7;
@@ -132,6 +135,11 @@ export function renderBoard(
 
   // Draw ghost patch if provided
   if (ghost) {
+    ctx.fillStyle = COLORS.deadCell;
+    for (const cell of ghost.deadCells ?? []) {
+      ctx.fillRect(x + cell.x * cellSize + cellPadding, y + cell.y * cellSize + cellPadding, cellSize - cellPadding * 2, cellSize - cellPadding * 2);
+    }
+
     const ghostShape = getTransformedShape(ghost.patch.shape, ghost.placement.rotation, ghost.placement.reflected);
     const isLeatherPatch = ghost.patch.id < 0;
     const animScale = ghost.scale ?? 1;
@@ -41,6 +41,8 @@ export function renderLineChart(
   // Calculate data bounds
   const values = data.flatMap(p => options.getValue(p));
   const maxVal = Math.max(...values, 1); // At least 1 to avoid division by zero
+  const minVal = Math.min(...values, 0); // Below zero only for series that go negative
+  const range = maxVal - minVal;
   const maxTurn = data.length - 1;
 
   // Draw chart title
@@ -65,7 +67,7 @@ export function renderLineChart(
     ctx.stroke();
 
     // Y-axis labels
-    const value = Math.round(maxVal - (maxVal * i) / gridLines);
+    const value = Math.round(maxVal - (range * i) / gridLines);
     ctx.fillStyle = COLORS.text;
     ctx.font = font(minDim, 'micro');
     ctx.textAlign = 'right';
@@ -100,7 +102,7 @@ export function renderLineChart(
       const point = data[i];
       const value = options.getValue(point)[playerIdx];
       const px = chartX + (chartWidth * point.turn) / (maxTurn || 1);
-      const py = chartY + chartHeight - (chartHeight * value) / (maxVal || 1);
+      const py = chartY + chartHeight - (chartHeight * (value - minVal)) / range;
 
       if (i === 0) {
         ctx.moveTo(px, py);
@@ -116,7 +118,7 @@ export function renderLineChart(
       const point = data[i];
       const value = options.getValue(point)[playerIdx];
       const px = chartX + (chartWidth * point.turn) / (maxTurn || 1);
-      const py = chartY + chartHeight - (chartHeight * value) / (maxVal || 1);
+      const py = chartY + chartHeight - (chartHeight * (value - minVal)) / range;
 
       ctx.beginPath();
       ctx.arc(px, py, pointRadius, 0, Math.PI * 2);
@@ -165,7 +167,7 @@ export function renderCharts(
   // Chart height as percentage of available height (max 22.5% of minDim)
   const maxChartHeight = scale(minDim, LAYOUT.chart.maxHeight);
   const gap = scale(minDim, LAYOUT.chart.gap);
-  const chartHeight = Math.min(maxChartHeight, (availableHeight - gap * 2) / 3);
+  const chartHeight = Math.min(maxChartHeight, (availableHeight - gap * 3) / 4);
 
   // Buttons chart
   renderLineChart(ctx, chartData.series, x, y, width, chartHeight, {
@@ -193,4 +195,13 @@ export function renderCharts(
     playerNames: chartData.playerNames,
     minDim,
   });
+
+  // Projected score chart
+  renderLineChart(ctx, chartData.series, x, y + 3 * (chartHeight + gap), width, chartHeight, {
+    title: 'Projected Score Over Time',
+    yAxisLabel: 'Points',
+    getValue: (p) => p.projectedScore,
+    playerNames: chartData.playerNames,
+    minDim,
+  });
 }
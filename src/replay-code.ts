@@ -0,0 +1,338 @@
+import type { GameAction, GameHistory } from './history';
+import { migrateHistory, type MigrateHistoryResult } from './history-schema';
+import { isBoardSize } from './variants';
+
+/**
+ * Compact shareable replay codes: a GameHistory packed into bytes and
+ * encoded as unpadded base64url so it fits in a URL fragment.
+ *
+ * The format version matches the GameHistory schema version it carries.
+ *
+ * Layout (all integers unsigned unless noted):
+ *   u8 format version
+ *   u32 seed
+ *   u8 flags (bit 0: first player, bit 1: has final scores, version 5+: bit 2 has hint counts,
+ *     bit 3 has patch fingerprint)
+ *   u8 board size
+ *   u8 patch count + u8 patch id per patch (version 2+)
+ *   u32 patch fingerprint (when flagged)
+ *   rules (version 4+): u8 starting buttons, u8 track length, u8 market size,
+ *     u8 empty cell penalty, u8 7x7 bonus, then u8 count + u8 positions for
+ *     income checkpoints and for leather patches
+ *   u8 rule options (version 5+): bit 0 track ties go to the first player,
+ *     bit 1 equal final scores are a tie, bit 2 the market starts at a random patch
+ *   2 x (u8 byte length + UTF-8 player name)
+ *   varint action count, then per action:
+ *     u8 header: type (2 bits) | player (1) | market slot (2) | rotation (2) | reflected (1)
+ *     buyPatch:     u8 patch id, u8 position (x << 4 | y)
+ *     skip:         u8 spaces skipped
+ *     leatherPatch: u8 track position, u8 position (x << 4 | y)
+ *     forfeited leather patch (version 3+): u8 track position
+ *   2 x zigzag varint final score (when flagged)
+ *   2 x varint hints used (when flagged)
+ */
+
+const CODE_FORMAT_VERSION = 5;
+
+const ACTION_TYPE_CODES = { buyPatch: 0, skip: 1, leatherPatch: 2, leatherForfeit: 3 } as const;
+
+export type DecodeReplayResult = MigrateHistoryResult;
+
+export function encodeReplayCode(history: GameHistory): string {
+  const bytes: number[] = [CODE_FORMAT_VERSION];
+
+  pushUint32(bytes, history.seed);
+  const hasScores = history.finalScores !== undefined;
+  const hasHints = history.hintsUsed !== undefined;
+  const hasFingerprint = history.patchFingerprint !== undefined;
+  bytes.push(history.firstPlayerIndex | (hasScores ? 2 : 0) | (hasHints ? 4 : 0) | (hasFingerprint ? 8 : 0));
+  bytes.push(history.boardSize);
+  bytes.push(history.patchOrder.length, ...history.patchOrder);
+  if (history.patchFingerprint !== undefined) pushUint32(bytes, history.patchFingerprint);
+
+  const rules = history.rules;
+  bytes.push(rules.startingButtons, rules.timeTrackLength, rules.marketSize, rules.emptyCellPenalty, rules.bonus7x7Points);
+  bytes.push(rules.incomePositions.length, ...rules.incomePositions);
+  bytes.push(rules.leatherPatchPositions.length, ...rules.leatherPatchPositions);
+  bytes.push(
+    (rules.trackTieOrder === 'firstPlayer' ? 1 : 0) |
+    (rules.scoreTieBreak === 'tie' ? 2 : 0) |
+    (rules.neutralTokenStart === 'random' ? 4 : 0)
+  );
+
+  for (const name of history.playerNames) {
+    const encoded = new TextEncoder().encode(name);
+    bytes.push(encoded.length, ...encoded);
+  }
+
+  pushVarint(bytes, history.actions.length);
+  for (const action of history.actions) {
+    const placement = action.type === 'skip' ? null : action.placement;
+    const typeCode = action.type === 'leatherPatch' && placement === null
+      ? ACTION_TYPE_CODES.leatherForfeit
+      : ACTION_TYPE_CODES[action.type];
+    const slot = action.type === 'buyPatch' ? action.patchIndex : 0;
+    const rotation = placement?.rotation ?? 0;
+    const reflected = placement?.reflected ? 1 : 0;
+    bytes.push(
+      typeCode |
+      (action.playerIndex << 2) |
+      (slot << 3) |
+      (rotation << 5) |
+      (reflected << 7)
+    );
+
+    switch (action.type) {
+      case 'buyPatch':
+        bytes.push(action.patchId, (action.placement.x << 4) | action.placement.y);
+        break;
+      case 'skip':
+        bytes.push(action.spacesSkipped);
+        break;
+      case 'leatherPatch':
+        bytes.push(action.trackPosition);
+        if (action.placement) bytes.push((action.placement.x << 4) | action.placement.y);
+        break;
+    }
+  }
+
+  if (history.finalScores) {
+    pushVarint(bytes, zigzag(history.finalScores[0]));
+    pushVarint(bytes, zigzag(history.finalScores[1]));
+  }
+  if (history.hintsUsed) {
+    pushVarint(bytes, history.hintsUsed[0]);
+    pushVarint(bytes, history.hintsUsed[1]);
+  }
+
+  return toBase64Url(Uint8Array.from(bytes));
+}
+
+/**
+ * Decode a replay code, rejecting anything malformed with a readable message.
+ */
+export function decodeReplayCode(code: string): DecodeReplayResult {
+  let bytes: Uint8Array;
+  try {
+    bytes = fromBase64Url(code.trim());
+  } catch {
+    return { success: false, error: 'Replay code contains invalid characters' };
+  }
+
+  let history: Record<string, unknown>;
+  try {
+    history = readHistory(createByteReader(bytes));
+  } catch (e) {
+    return { success: false, error: e instanceof Error ? e.message : String(e) };
+  }
+  // Version 1 codes carry a version 1 history, which is upgraded like any stored history
+  return migrateHistory(history);
+}
+
+function readHistory(reader: ByteReader): Record<string, unknown> {
+  const version = reader.readUint8();
+  if (version < 1 || version > CODE_FORMAT_VERSION) {
+    throw new Error(`Unsupported replay code version ${version}`);
+  }
+
+  const seed = reader.readUint32();
+  const flags = reader.readUint8();
+  if (flags > (version >= 5 ? 15 : 3)) throw new Error('Replay code has unknown flags');
+  const firstPlayerIndex = (flags & 1) as 0 | 1;
+  const hasScores = (flags & 2) !== 0;
+  const hasHints = (flags & 4) !== 0;
+  const hasFingerprint = (flags & 8) !== 0;
+
+  const boardSize = reader.readUint8();
+  if (!isBoardSize(boardSize)) throw new Error(`Unsupported board size ${boardSize}`);
+
+  const patchOrder: number[] = [];
+  if (version >= 2) {
+    const patchCount = reader.readUint8();
+    for (let i = 0; i < patchCount; i++) {
+      patchOrder.push(reader.readUint8());
+    }
+  }
+  const patchFingerprint = hasFingerprint ? reader.readUint32() : undefined;
+
+  let rules: Record<string, unknown> | undefined;
+  if (version >= 4) {
+    rules = {
+      startingButtons: reader.readUint8(),
+      timeTrackLength: reader.readUint8(),
+      marketSize: reader.readUint8(),
+      emptyCellPenalty: reader.readUint8(),
+      bonus7x7Points: reader.readUint8(),
+      incomePositions: readByteList(reader),
+      leatherPatchPositions: readByteList(reader),
+    };
+  }
+  if (rules && version >= 5) {
+    const options = reader.readUint8();
+    if (options > 7) throw new Error('Replay code has unknown rule options');
+    rules.trackTieOrder = options & 1 ? 'firstPlayer' : 'stacking';
+    rules.scoreTieBreak = options & 2 ? 'tie' : 'finishedFirst';
+    rules.neutralTokenStart = options & 4 ? 'random' : 'afterSmallestPatch';
+  }
+
+  const playerNames: [string, string] = [reader.readName(), reader.readName()];
+
+  const actionCount = reader.readVarint();
+  const actions: GameAction[] = [];
+  for (let i = 0; i < actionCount; i++) {
+    actions.push(readAction(reader, boardSize, version));
+  }
+
+  const history: Record<string, unknown> = {
+    version,
+    seed,
+    playerNames,
+    firstPlayerIndex,
+    boardSize,
+    actions,
+  };
+  if (version >= 2) history.patchOrder = patchOrder;
+  if (patchFingerprint !== undefined) history.patchFingerprint = patchFingerprint;
+  if (rules) history.rules = rules;
+  if (hasScores) {
+    history.finalScores = [unzigzag(reader.readVarint()), unzigzag(reader.readVarint())];
+  }
+  if (hasHints) {
+    history.hintsUsed = [reader.readVarint(), reader.readVarint()];
+  }
+
+  if (!reader.isAtEnd()) throw new Error('Replay code has unexpected trailing data');
+  return history;
+}
+
+function readAction(reader: ByteReader, boardSize: number, version: number): GameAction {
+  const header = reader.readUint8();
+  const typeCode = header & 3;
+  const playerIndex = ((header >> 2) & 1) as 0 | 1;
+  const patchIndex = (header >> 3) & 3;
+  const rotation = (header >> 5) & 3;
+  const reflected = (header >> 7) === 1;
+
+  switch (typeCode) {
+    case ACTION_TYPE_CODES.buyPatch: {
+      const patchId = reader.readUint8();
+      const { x, y } = readPosition(reader, boardSize);
+      return { type: 'buyPatch', playerIndex, patchIndex, patchId, placement: { x, y, rotation, reflected } };
+    }
+    case ACTION_TYPE_CODES.skip:
+      return { type: 'skip', playerIndex, spacesSkipped: reader.readUint8() };
+    case ACTION_TYPE_CODES.leatherPatch: {
+      const trackPosition = reader.readUint8();
+      const { x, y } = readPosition(reader, boardSize);
+      return { type: 'leatherPatch', playerIndex, trackPosition, placement: { x, y, rotation, reflected } };
+    }
+    case ACTION_TYPE_CODES.leatherForfeit:
+      if (version < 3) break;
+      return { type: 'leatherPatch', playerIndex, trackPosition: reader.readUint8(), placement: null };
+  }
+  throw new Error(`Unknown action type ${typeCode}`);
+}
+
+function readByteList(reader: ByteReader): number[] {
+  const values: number[] = [];
+  const count = reader.readUint8();
+  for (let i = 0; i < count; i++) {
+    values.push(reader.readUint8());
+  }
+  return values;
+}
+
+function readPosition(reader: ByteReader, boardSize: number): { x: number; y: number } {
+  const packed = reader.readUint8();
+  const x = packed >> 4;
+  const y = packed & 15;
+  if (x >= boardSize || y >= boardSize) throw new Error(`Placement (${x}, ${y}) is off the board`);
+  return { x, y };
+}
+
+interface ByteReader {
+  isAtEnd(): boolean;
+  readUint8(): number;
+  readUint32(): number;
+  readVarint(): number;
+  readName(): string;
+}
+
+function createByteReader(bytes: Uint8Array): ByteReader {
+  let offset = 0;
+
+  const readUint8 = (): number => {
+    if (offset >= bytes.length) throw new Error('Replay code is truncated');
+    return bytes[offset++];
+  };
+
+  return {
+    isAtEnd: () => offset === bytes.length,
+    readUint8,
+    readUint32: () => {
+      let value = 0;
+      for (let i = 0; i < 4; i++) {
+        value = value * 256 + readUint8();
+      }
+      return value;
+    },
+    readVarint: () => {
+      let value = 0;
+      let multiplier = 1;
+      for (let i = 0; i < 5; i++) {
+        const byte = readUint8();
+        value += (byte & 0x7f) * multiplier;
+        if ((byte & 0x80) === 0) return value;
+        multiplier *= 128;
+      }
+      throw new Error('Replay code has an oversized number');
+    },
+    readName: () => {
+      const length = readUint8();
+      if (length === 0 || length > 80) throw new Error('Replay code has an invalid player name');
+      if (offset + length > bytes.length) throw new Error('Replay code is truncated');
+      const start = offset;
+      offset += length;
+      try {
+        return new TextDecoder('utf-8', { fatal: true }).decode(bytes.subarray(start, offset));
+      } catch {
+        throw new Error('Replay code has an invalid player name');
+      }
+    },
+  };
+}
+
+function pushUint32(bytes: number[], value: number): void {
+  bytes.push((value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff);
+}
+
+function pushVarint(bytes: number[], value: number): void {
+  let remaining = value;
+  while (remaining >= 0x80) {
+    bytes.push((remaining & 0x7f) | 0x80);
+    remaining = Math.floor(remaining / 128);
+  }
+  bytes.push(remaining);
+}
+
+// Map signed integers onto unsigned so small negatives stay small
+function zigzag(value: number): number {
+  return value >= 0 ? value * 2 : -value * 2 - 1;
+}
+
+function unzigzag(value: number): number {
+  return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(code: string): Uint8Array {
+  if (!/^[A-Za-z0-9_-]*$/.test(code)) throw new Error('Invalid base64url');
+  const base64 = code.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
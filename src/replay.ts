@@ -0,0 +1,135 @@
+import type { GameState, Screen } from './types';
+import type { GameHistory } from './history';
+import { applyAction, createInitialState } from './engine';
+import { getCurrentPlayerIndex } from './game';
+
+// A keyframe snapshot is kept every KEYFRAME_INTERVAL actions so seeking never replays from the seed
+const KEYFRAME_INTERVAL = 8;
+
+// Delay between actions at 1x speed
+export const REPLAY_STEP_MS = 1000;
+
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4] as const;
+export type ReplaySpeed = typeof REPLAY_SPEEDS[number];
+
+export interface ReplayState {
+  history: GameHistory;
+  keyframes: GameState[];      // keyframes[k] = state after k * KEYFRAME_INTERVAL actions
+  actionCount: number;         // Number of playable actions (stops before any invalid action)
+  currentActionIndex: number;  // Number of actions applied to gameState
+  gameState: GameState;
+  isPlaying: boolean;
+  playbackSpeed: ReplaySpeed;
+  lastStepTime: number;
+  returnScreen: Screen;        // Screen to go back to when the replay is closed
+}
+
+/**
+ * Initialize a replay from a GameHistory, building keyframes in a single pass.
+ */
+export function initReplay(history: GameHistory, returnScreen: Screen): ReplayState {
+  const initialState = createInitialState(history);
+  const keyframes: GameState[] = [initialState];
+
+  let state = initialState;
+  let actionCount = 0;
+  for (const action of history.actions) {
+    const result = applyAction(state, action);
+    if (result.error !== null) {
+      console.error(`Replay stops at action ${actionCount}: ${result.error}`);
+      break;
+    }
+    state = result.state;
+    actionCount++;
+    if (actionCount % KEYFRAME_INTERVAL === 0) {
+      keyframes.push(state);
+    }
+  }
+
+  return {
+    history,
+    keyframes,
+    actionCount,
+    currentActionIndex: 0,
+    gameState: initialState,
+    isPlaying: false,
+    playbackSpeed: 1,
+    lastStepTime: 0,
+    returnScreen,
+  };
+}
+
+/**
+ * Move the replay to the state after `actionIndex` actions, starting from the nearest keyframe.
+ */
+export function seekReplay(replay: ReplayState, actionIndex: number): void {
+  const target = Math.max(0, Math.min(actionIndex, replay.actionCount));
+  const keyframeIndex = Math.floor(target / KEYFRAME_INTERVAL);
+
+  // Stepping forward from the current position is cheaper when it is past the keyframe
+  let index = keyframeIndex * KEYFRAME_INTERVAL;
+  let state = replay.keyframes[keyframeIndex];
+  if (replay.currentActionIndex <= target && replay.currentActionIndex > index) {
+    index = replay.currentActionIndex;
+    state = replay.gameState;
+  }
+
+  for (; index < target; index++) {
+    state = applyAction(state, replay.history.actions[index]).state;
+  }
+
+  replay.gameState = state;
+  replay.currentActionIndex = target;
+}
+
+export function stepReplayForward(replay: ReplayState): boolean {
+  if (replay.currentActionIndex >= replay.actionCount) return false;
+  seekReplay(replay, replay.currentActionIndex + 1);
+  return true;
+}
+
+export function stepReplayBackward(replay: ReplayState): boolean {
+  if (replay.currentActionIndex <= 0) return false;
+  seekReplay(replay, replay.currentActionIndex - 1);
+  return true;
+}
+
+/**
+ * Count turns (buys and skips) among the first `actionIndex` actions.
+ * Leather patches belong to the turn that triggered them.
+ */
+export function getReplayTurn(replay: ReplayState, actionIndex: number = replay.currentActionIndex): number {
+  let turns = 0;
+  for (let i = 0; i < actionIndex; i++) {
+    if (replay.history.actions[i].type !== 'leatherPatch') turns++;
+  }
+  return turns;
+}
+
+export function getReplayTurnCount(replay: ReplayState): number {
+  return getReplayTurn(replay, replay.actionCount);
+}
+
+/**
+ * Action index at the end of turn `turn`, including the leather patches it triggered.
+ */
+export function getActionIndexForTurn(replay: ReplayState, turn: number): number {
+  let turns = 0;
+  for (let i = 0; i < replay.actionCount; i++) {
+    if (replay.history.actions[i].type !== 'leatherPatch') {
+      if (turns === turn) return i;
+      turns++;
+    }
+  }
+  return replay.actionCount;
+}
+
+/**
+ * Player whose board is shown: whoever made the last applied action.
+ */
+export function getReplayFocusPlayer(replay: ReplayState): 0 | 1 {
+  if (replay.currentActionIndex === 0) {
+    return getCurrentPlayerIndex(replay.gameState);
+  }
+  return replay.history.actions[replay.currentActionIndex - 1].playerIndex;
+}
@@ -0,0 +1,123 @@
+import type { NeutralTokenStart, RuleSet, ScoreTieBreak, TrackTieOrder } from './types';
+
+export const STANDARD_RULES: RuleSet = {
+  startingButtons: 5,
+  timeTrackLength: 53,
+  incomePositions: [5, 11, 17, 23, 29, 35, 41, 47, 53],
+  leatherPatchPositions: [8, 18, 28, 38, 48],
+  marketSize: 3,
+  emptyCellPenalty: 2,
+  bonus7x7Points: 7,
+  trackTieOrder: 'stacking',
+  scoreTieBreak: 'finishedFirst',
+  neutralTokenStart: 'afterSmallestPatch',
+};
+
+export interface RulePreset {
+  name: string;
+  rules: RuleSet;
+}
+
+export const RULE_PRESETS: RulePreset[] = [
+  { name: 'Standard', rules: STANDARD_RULES },
+  { name: 'Rich Start', rules: { ...STANDARD_RULES, startingButtons: 10 } },
+  { name: 'Gentle Scoring', rules: { ...STANDARD_RULES, emptyCellPenalty: 1, bonus7x7Points: 5 } },
+  { name: 'Wide Market', rules: { ...STANDARD_RULES, marketSize: 4 } },
+  {
+    name: 'Quick Game',
+    rules: {
+      ...STANDARD_RULES,
+      timeTrackLength: 35,
+      incomePositions: [5, 11, 17, 23, 29, 35],
+      leatherPatchPositions: [8, 18, 28],
+    },
+  },
+];
+
+// Allowed ranges for the numeric rules (also bounded by what replay codes can store)
+export const RULE_LIMITS = {
+  startingButtons: { min: 0, max: 99 },
+  timeTrackLength: { min: 10, max: 99 },
+  marketSize: { min: 1, max: 4 },
+  emptyCellPenalty: { min: 0, max: 9 },
+  bonus7x7Points: { min: 0, max: 49 },
+} as const;
+
+export type NumericRule = keyof typeof RULE_LIMITS;
+
+// Rules with a fixed set of options, cycled by tapping their row on the house rules screen
+export const RULE_CHOICES: {
+  trackTieOrder: { value: TrackTieOrder; label: string }[];
+  scoreTieBreak: { value: ScoreTieBreak; label: string }[];
+  neutralTokenStart: { value: NeutralTokenStart; label: string }[];
+} = {
+  trackTieOrder: [
+    { value: 'stacking', label: 'Last to arrive' },
+    { value: 'firstPlayer', label: 'First player' },
+  ],
+  scoreTieBreak: [
+    { value: 'finishedFirst', label: 'First to finish' },
+    { value: 'tie', label: 'Shared win' },
+  ],
+  neutralTokenStart: [
+    { value: 'afterSmallestPatch', label: 'After the 1x2 patch' },
+    { value: 'random', label: 'Random' },
+  ],
+};
+
+export type ChoiceRule = keyof typeof RULE_CHOICES;
+
+/**
+ * Name of the preset matching a rule set, or 'Custom' when none does.
+ */
+export function getRulePresetName(rules: RuleSet): string {
+  const preset = RULE_PRESETS.find(p => rulesEqual(p.rules, rules));
+  return preset ? preset.name : 'Custom';
+}
+
+export function rulesEqual(a: RuleSet, b: RuleSet): boolean {
+  return a.startingButtons === b.startingButtons &&
+    a.timeTrackLength === b.timeTrackLength &&
+    a.incomePositions.join(',') === b.incomePositions.join(',') &&
+    a.leatherPatchPositions.join(',') === b.leatherPatchPositions.join(',') &&
+    a.marketSize === b.marketSize &&
+    a.emptyCellPenalty === b.emptyCellPenalty &&
+    a.bonus7x7Points === b.bonus7x7Points &&
+    a.trackTieOrder === b.trackTieOrder &&
+    a.scoreTieBreak === b.scoreTieBreak &&
+    a.neutralTokenStart === b.neutralTokenStart;
+}
+
+/**
+ * Check an untrusted value is a usable rule set. Returns an error message, or null when valid.
+ */
+export function validateRuleSet(value: unknown): string | null {
+  if (typeof value !== 'object' || value === null) return 'rules missing';
+  const rules = value as Record<string, unknown>;
+
+  for (const key of Object.keys(RULE_LIMITS) as NumericRule[]) {
+    const n = rules[key];
+    const { min, max } = RULE_LIMITS[key];
+    if (typeof n !== 'number' || !Number.isInteger(n) || n < min || n > max) {
+      return `${key} must be a whole number from ${min} to ${max}`;
+    }
+  }
+
+  const trackLength = rules.timeTrackLength as number;
+  for (const key of ['incomePositions', 'leatherPatchPositions'] as const) {
+    const positions = rules[key];
+    if (!Array.isArray(positions)) return `${key} missing`;
+    for (let i = 0; i < positions.length; i++) {
+      const pos = positions[i];
+      if (typeof pos !== 'number' || !Number.isInteger(pos) || pos < 1 || pos > trackLength) {
+        return `${key} must be on the track (1 to ${trackLength})`;
+      }
+      if (i > 0 && pos <= positions[i - 1]) return `${key} must be in increasing order`;
+    }
+  }
+
+  for (const key of Object.keys(RULE_CHOICES) as ChoiceRule[]) {
+    if (!RULE_CHOICES[key].some(choice => choice.value === rules[key])) return `${key} has an unknown value`;
+  }
+  return null;
+}
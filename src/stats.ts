@@ -1,5 +1,7 @@
 import type { GameHistory } from './history';
-import { createGameState, buyPatch, skipAhead, placeLeatherPatch, collectLeatherPatch } from './game';
+import type { GameState } from './types';
+import { applyAction, createInitialState } from './engine';
+import { projectFinalScore } from './projection';
 
 export interface GameStats {
   totalTurns: number;
@@ -9,6 +11,7 @@ export interface GameStats {
   leatherPatches: [number, number];
   buttonsFromSkips: [number, number];
   finalScores: [number, number];
+  hintsUsed: [number, number];
 }
 
 // Time series data for charts
@@ -18,6 +21,7 @@ export interface TimeSeriesPoint {
   income: [number, number];
   cellsFilled: [number, number];
   position: [number, number];
+  projectedScore: [number, number];
 }
 
 export interface ChartData {
@@ -34,6 +38,7 @@ export function calculateStats(history: GameHistory): GameStats {
     leatherPatches: [0, 0],
     buttonsFromSkips: [0, 0],
     finalScores: history.finalScores ?? [0, 0],
+    hintsUsed: history.hintsUsed ?? [0, 0],
   };
 
   for (const action of history.actions) {
@@ -53,7 +58,7 @@ export function calculateStats(history: GameHistory): GameStats {
         break;
       case 'leatherPatch':
         // Leather patches don't count as separate turns (part of the move that triggered them)
-        stats.leatherPatches[p]++;
+        if (action.placement !== null) stats.leatherPatches[p]++;
         break;
     }
   }
@@ -72,22 +77,10 @@ function countFilledCells(board: (number | null)[][]): number {
   return count;
 }
 
-// Calculate time series data for charts by replaying the game
-export function calculateChartData(history: GameHistory): ChartData {
-  // Create initial game state using the seed
-  const { state } = createGameState(
-    history.boardSize,
-    history.playerNames,
-    history.firstPlayerIndex,
-    history.seed
-  );
-
-  const series: TimeSeriesPoint[] = [];
-  let turnNumber = 0;
-
-  // Record initial state (turn 0)
-  series.push({
-    turn: turnNumber,
+// Snapshot the charted values of a state
+function createTimeSeriesPoint(turn: number, state: GameState): TimeSeriesPoint {
+  return {
+    turn,
     buttons: [state.players[0].buttons, state.players[1].buttons],
     income: [state.players[0].income, state.players[1].income],
     cellsFilled: [
@@ -95,73 +88,34 @@ export function calculateChartData(history: GameHistory): ChartData {
       countFilledCells(state.players[1].board),
     ],
     position: [state.players[0].position, state.players[1].position],
-  });
+    projectedScore: [projectFinalScore(state, 0), projectFinalScore(state, 1)],
+  };
+}
+
+// Calculate time series data for charts by replaying the game
+export function calculateChartData(history: GameHistory): ChartData {
+  // Create initial game state using the seed
+  let state = createInitialState(history);
+
+  // Record initial state (turn 0)
+  const series: TimeSeriesPoint[] = [createTimeSeriesPoint(0, state)];
+  let turnNumber = 0;
 
   // Replay each action
   for (const action of history.actions) {
-    switch (action.type) {
-      case 'buyPatch':
-        buyPatch(
-          state,
-          action.patchIndex,
-          action.placement.x,
-          action.placement.y,
-          action.placement.rotation,
-          action.placement.reflected
-        );
-        turnNumber++;
-        // Record state after this turn
-        series.push({
-          turn: turnNumber,
-          buttons: [state.players[0].buttons, state.players[1].buttons],
-          income: [state.players[0].income, state.players[1].income],
-          cellsFilled: [
-            countFilledCells(state.players[0].board),
-            countFilledCells(state.players[1].board),
-          ],
-          position: [state.players[0].position, state.players[1].position],
-        });
-        break;
-
-      case 'skip':
-        skipAhead(state);
-        turnNumber++;
-        // Record state after this turn
-        series.push({
-          turn: turnNumber,
-          buttons: [state.players[0].buttons, state.players[1].buttons],
-          income: [state.players[0].income, state.players[1].income],
-          cellsFilled: [
-            countFilledCells(state.players[0].board),
-            countFilledCells(state.players[1].board),
-          ],
-          position: [state.players[0].position, state.players[1].position],
-        });
-        break;
+    const result = applyAction(state, action);
+    if (result.error !== null) {
+      console.error(`Stopped replay at invalid action: ${result.error}`);
+      break;
+    }
+    state = result.state;
 
-      case 'leatherPatch':
-        // Collect and place leather patch
-        const patch = collectLeatherPatch(state, action.trackPosition);
-        if (patch) {
-          placeLeatherPatch(
-            state,
-            patch,
-            action.placement.x,
-            action.placement.y,
-            action.placement.rotation,
-            action.placement.reflected
-          );
-          // Update the last recorded point with new cell count
-          // (leather patches are part of the previous turn)
-          if (series.length > 0) {
-            const lastPoint = series[series.length - 1];
-            lastPoint.cellsFilled = [
-              countFilledCells(state.players[0].board),
-              countFilledCells(state.players[1].board),
-            ];
-          }
-        }
-        break;
+    if (action.type === 'leatherPatch') {
+      // Leather patches are part of the previous turn - update its point
+      series[series.length - 1] = createTimeSeriesPoint(series[series.length - 1].turn, state);
+    } else {
+      turnNumber++;
+      series.push(createTimeSeriesPoint(turnNumber, state));
     }
   }
 
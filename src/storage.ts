@@ -1,8 +1,29 @@
+import type { BoardSize, ComputerLevel, RuleSet } from './types';
+import type { GameHistory } from './history';
+import { migrateHistory } from './history-schema';
+import { STANDARD_RULES, validateRuleSet } from './rules';
+import { isBoardSize } from './variants';
+import { isComputerLevel } from './mcts';
+
 const STORAGE_KEY = 'patchwork_player_names';
 const FIRST_PLAYER_KEY = 'patchwork_first_player';
 const AUTO_SKIP_KEY = 'patchwork_auto_skip';
 const FACE_TO_FACE_KEY = 'patchwork_face_to_face';
 const ANIMATIONS_DISABLED_KEY = 'patchwork_animations_disabled';
+const UNDO_OWN_TURN_ONLY_KEY = 'patchwork_undo_own_turn_only';
+const COACHING_KEY = 'patchwork_coaching';
+const IN_PROGRESS_GAME_KEY = 'patchwork_in_progress_game';
+const HOUSE_RULES_KEY = 'patchwork_house_rules';
+const BOARD_SIZE_KEY = 'patchwork_board_size';
+const COMPUTER_PLAYERS_KEY = 'patchwork_computer_players';
+
+// Live game saved after every recorded action so it survives a reload
+export interface SavedGame {
+  history: GameHistory;
+  pendingLeatherPatches: number[];  // Leather patch positions still to place, including the one being placed
+  leatherPatchOwner: 0 | 1 | null;
+  computerPlayers: [ComputerLevel | null, ComputerLevel | null];  // As played, not the current setup choice
+}
 
 export function loadPlayerNames(): [string, string] {
   try {
@@ -27,6 +48,41 @@ export function savePlayerNames(names: [string, string]): void {
   }
 }
 
+export function loadComputerPlayersPref(): [ComputerLevel | null, ComputerLevel | null] {
+  try {
+    const stored = localStorage.getItem(COMPUTER_PLAYERS_KEY);
+    if (stored) {
+      const seats = parseComputerSeats(JSON.parse(stored));
+      if (seats) return seats;
+    }
+  } catch (e) {
+    console.error('Failed to load computer players from localStorage:', e);
+  }
+  return [null, null];
+}
+
+/**
+ * Read a stored pair of seats, or null when it is not a pair. Seats were stored as true or
+ * false before the computer had levels; true was the heuristic bot.
+ */
+export function parseComputerSeats(value: unknown): [ComputerLevel | null, ComputerLevel | null] | null {
+  if (!Array.isArray(value) || value.length !== 2) return null;
+  return [parseComputerSeat(value[0]), parseComputerSeat(value[1])];
+}
+
+function parseComputerSeat(value: unknown): ComputerLevel | null {
+  if (value === true) return 'heuristic';
+  return isComputerLevel(value) ? value : null;
+}
+
+export function saveComputerPlayersPref(seats: [ComputerLevel | null, ComputerLevel | null]): void {
+  try {
+    localStorage.setItem(COMPUTER_PLAYERS_KEY, JSON.stringify(seats));
+  } catch (e) {
+    console.error('Failed to save computer players to localStorage:', e);
+  }
+}
+
 export function loadFirstPlayerPref(): 0 | 1 | 'random' {
   try {
     const stored = localStorage.getItem(FIRST_PLAYER_KEY);
@@ -99,3 +155,127 @@ export function saveAnimationsDisabledPref(disabled: boolean): void {
     console.error('Failed to save animations disabled preference to localStorage:', e);
   }
 }
+
+export function loadUndoOwnTurnOnlyPref(): boolean {
+  try {
+    const stored = localStorage.getItem(UNDO_OWN_TURN_ONLY_KEY);
+    return stored === 'true';
+  } catch (e) {
+    console.error('Failed to load undo preference from localStorage:', e);
+  }
+  return false;
+}
+
+export function saveUndoOwnTurnOnlyPref(enabled: boolean): void {
+  try {
+    localStorage.setItem(UNDO_OWN_TURN_ONLY_KEY, String(enabled));
+  } catch (e) {
+    console.error('Failed to save undo preference to localStorage:', e);
+  }
+}
+
+export function loadCoachingPref(): boolean {
+  try {
+    const stored = localStorage.getItem(COACHING_KEY);
+    return stored === 'true';
+  } catch (e) {
+    console.error('Failed to load coaching preference from localStorage:', e);
+  }
+  return false;
+}
+
+export function saveCoachingPref(enabled: boolean): void {
+  try {
+    localStorage.setItem(COACHING_KEY, String(enabled));
+  } catch (e) {
+    console.error('Failed to save coaching preference to localStorage:', e);
+  }
+}
+
+export function loadHouseRules(): RuleSet {
+  try {
+    const stored = localStorage.getItem(HOUSE_RULES_KEY);
+    if (stored) {
+      // Rules added since the house rules were saved take their standard values
+      const rules = { ...STANDARD_RULES, ...JSON.parse(stored) };
+      if (validateRuleSet(rules) === null) {
+        return rules;
+      }
+    }
+  } catch (e) {
+    console.error('Failed to load house rules from localStorage:', e);
+  }
+  return STANDARD_RULES;
+}
+
+export function saveHouseRules(rules: RuleSet): void {
+  try {
+    localStorage.setItem(HOUSE_RULES_KEY, JSON.stringify(rules));
+  } catch (e) {
+    console.error('Failed to save house rules to localStorage:', e);
+  }
+}
+
+export function loadBoardSizePref(): BoardSize {
+  try {
+    const stored = Number(localStorage.getItem(BOARD_SIZE_KEY));
+    if (isBoardSize(stored)) return stored;
+  } catch (e) {
+    console.error('Failed to load board size preference from localStorage:', e);
+  }
+  return 9;
+}
+
+export function saveBoardSizePref(boardSize: BoardSize): void {
+  try {
+    localStorage.setItem(BOARD_SIZE_KEY, String(boardSize));
+  } catch (e) {
+    console.error('Failed to save board size preference to localStorage:', e);
+  }
+}
+
+export function loadInProgressGame(): SavedGame | null {
+  try {
+    const stored = localStorage.getItem(IN_PROGRESS_GAME_KEY);
+    if (stored) {
+      const saved = JSON.parse(stored);
+      if (isSavedGame(saved)) {
+        const migrated = migrateHistory(saved.history);
+        if (migrated.success) {
+          // Saves from before seats were recorded fall back to the setup choice
+          const computerPlayers = parseComputerSeats(saved.computerPlayers) ?? loadComputerPlayersPref();
+          return { ...saved, history: migrated.history, computerPlayers };
+        }
+        console.error('Discarding in-progress game:', migrated.error);
+      }
+    }
+  } catch (e) {
+    console.error('Failed to load in-progress game from localStorage:', e);
+  }
+  return null;
+}
+
+export function saveInProgressGame(saved: SavedGame): void {
+  try {
+    localStorage.setItem(IN_PROGRESS_GAME_KEY, JSON.stringify(saved));
+  } catch (e) {
+    console.error('Failed to save in-progress game to localStorage:', e);
+  }
+}
+
+export function clearInProgressGame(): void {
+  try {
+    localStorage.removeItem(IN_PROGRESS_GAME_KEY);
+  } catch (e) {
+    console.error('Failed to clear in-progress game from localStorage:', e);
+  }
+}
+
+function isSavedGame(value: unknown): value is SavedGame {
+  if (typeof value !== 'object' || value === null) return false;
+  // The history itself is validated by migrateHistory
+  const saved = value as Partial<SavedGame>;
+  return typeof saved.history === 'object' && saved.history !== null &&
+    Array.isArray(saved.pendingLeatherPatches) &&
+    (saved.leatherPatchOwner === 0 || saved.leatherPatchOwner === 1 || saved.leatherPatchOwner === null);
+}
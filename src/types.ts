@@ -1,10 +1,17 @@
-import type { HistoryManager } from './history';
+import type { BuyPatchAction, HistoryManager, SkipAction } from './history';
+import type { ReplayState } from './replay';
+import type { SavedGame } from './storage';
+import type { GameRecord } from './game-library';
+import type { GameAnalysis } from './analysis';
 
-export type BoardSize = 9;
+export type BoardSize = 7 | 9;
 
-export type Screen = 'setup' | 'game' | 'placement' | 'gameEnd' | 'mapView' | 'boardPreview' | 'adminTest';
+// Computer player of a seat: the heuristic bot, or MCTS at a search budget
+export type ComputerLevel = 'heuristic' | 'easy' | 'medium' | 'hard';
 
-export type GameEndTab = 'summary' | 'charts';
+export type Screen = 'setup' | 'game' | 'placement' | 'gameEnd' | 'mapView' | 'boardPreview' | 'adminTest' | 'replay' | 'recentGames' | 'houseRules';
+
+export type GameEndTab = 'summary' | 'charts' | 'analysis';
 
 export type Shape = (0 | 1)[][];
 
@@ -42,7 +49,7 @@ export interface Player {
   position: number;  // Position on time track
   board: (number | null)[][];  // null = empty, number = patch id (for collision)
   placedPatches: PlacedPatch[];  // For rendering with full context
-  bonus7x7Area: { x: number; y: number } | null;  // Top-left corner of completed 7x7, or null
+  bonus7x7Area: { x: number; y: number } | null;  // Top-left corner of the completed bonus square (7x7 on the standard board), or null
 }
 
 export interface PlacementState {
@@ -67,6 +74,33 @@ export interface PlacementAnimationState {
   playerIndex: 0 | 1;
 }
 
+// Tunable game rules, recorded in every game history so house variants replay correctly
+export interface RuleSet {
+  startingButtons: number;
+  timeTrackLength: number;
+  incomePositions: number[];        // Time track positions where income is collected
+  leatherPatchPositions: number[];  // Time track positions holding a leather patch
+  marketSize: number;               // Patches offered ahead of the neutral token
+  emptyCellPenalty: number;         // Points lost per empty board cell
+  bonus7x7Points: number;           // Points for completing the bonus square (7x7 on the standard board)
+  trackTieOrder: TrackTieOrder;     // Who moves first when both tokens share a space
+  scoreTieBreak: ScoreTieBreak;     // How equal final scores are settled
+  neutralTokenStart: NeutralTokenStart;  // How the patch circle is laid out at setup
+}
+
+// 'stacking': the token that arrived last sits on top and moves first (official rule)
+// 'firstPlayer': the starting player always moves first on ties
+export type TrackTieOrder = 'stacking' | 'firstPlayer';
+
+// 'finishedFirst': the player who reached the final space first wins (official rule)
+// 'tie': equal scores are a tie
+export type ScoreTieBreak = 'finishedFirst' | 'tie';
+
+// 'afterSmallestPatch': the smallest patch is left out of the shuffle and the neutral token
+// starts right after it (official setup)
+// 'random': every patch is shuffled and the market starts at the top of the circle
+export type NeutralTokenStart = 'afterSmallestPatch' | 'random';
+
 export interface LeatherPatchOnTrack {
   position: number;
   collected: boolean;
@@ -81,8 +115,11 @@ export interface GameState {
   timeTrackLength: number;
   incomePositions: number[];  // Positions on time track where income is collected
   leatherPatches: LeatherPatchOnTrack[];  // Leather patches on time track
-  firstPlayerIndex: 0 | 1;  // Which player goes first when positions are tied
-  bonus7x7Claimed: boolean;  // True once any player has claimed the 7x7 bonus
+  firstPlayerIndex: 0 | 1;  // Which player goes first when positions are tied and nobody has moved
+  lastArrivedPlayerIndex: 0 | 1 | null;  // Player who moved last, on top when the tokens share a space
+  finishOrder: (0 | 1)[];  // Players in the order they reached the final space
+  bonus7x7Claimed: boolean;  // True once any player has claimed the bonus square
+  rules: RuleSet;
 }
 
 export interface AppState {
@@ -92,24 +129,39 @@ export interface AppState {
   dragState: DragState | null;
   selectedBoardSize: BoardSize;
   playerNames: [string, string];
+  computerPlayers: [ComputerLevel | null, ComputerLevel | null];  // Level of each computer-played seat, null for humans
   firstPlayerIndex: 0 | 1 | 'random';  // Which player goes first (or 'random' to pick randomly each game)
   previewPlayerIdx: number | null;
   pendingLeatherPatches: number[];   // Queue of leather patch positions to collect
   placingLeatherPatch: Patch | null; // Current leather patch being placed
+  leatherPatchOwner: 0 | 1 | null;   // Player who crossed the pending leather patches
   previewingOpponentBoard: boolean;  // True when holding opponent's panel to preview their board
   confirmingSkip: boolean;  // True when user tapped skip once and needs to confirm
+  hint: BuyPatchAction | SkipAction | null;  // Suggested turn for the current player, until they act
+  hintPending: boolean;  // True while the hint is being searched for
   autoSkipEnabled: boolean;  // True when auto-skip is enabled for players who can't afford any patches
   toasts: Toast[];  // Active toast notifications
   faceToFaceMode: boolean;  // True when screen rotates 180° on player change for face-to-face play
   historyManager: HistoryManager | null;  // Turn history for stats/undo/replay
   gameEndTab: GameEndTab;  // Active tab on game end screen
+  gameAnalysis: GameAnalysis | null;  // Analysis of the finished game, computed in a worker when its tab is first opened
   placementAnimationsEnabled: boolean;  // True when placement animations are enabled
   placementAnimation: PlacementAnimationState | null;  // Current placement animation in progress
+  undoOwnTurnOnly: boolean;  // True when undo is only allowed until the other player has acted
+  coachingEnabled: boolean;  // True when costly human turns are pointed out right after they are played
+  replay: ReplayState | null;  // Active replay playback (replay screen)
+  resumableGame: SavedGame | null;  // Auto-saved game offered on the setup screen
+  recentGames: GameRecord[] | null;  // Library games for the recent games screen (null while loading)
+  recentGamesFilter: string;  // Player name filter on the recent games screen
+  recentGamesPage: number;
+  viewingLibraryGame: boolean;  // True when the game end screen shows a game opened from the library
+  houseRules: RuleSet;  // Rules for the next game, edited on the house rules screen
 }
 
 export interface Toast {
   message: string;
   createdAt: number;  // timestamp for auto-dismiss
+  durationMs: number;  // Shown for this long, fading out at the end
 }
 
 export type ButtonType = 'standard' | 'patch' | 'track-position' | 'player-panel';
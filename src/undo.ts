@@ -0,0 +1,60 @@
+import type { GameState } from './types';
+import { recordAction, type HistoryManager } from './history';
+import { applyAction } from './engine';
+
+export interface UndoResult {
+  state: GameState;
+  playerIndex: 0 | 1;  // Player whose turn was undone or redone
+}
+
+export function canUndo(manager: HistoryManager, ownTurnOnly: boolean): boolean {
+  const minTurns = ownTurnOnly ? manager.lockedTurns : 0;
+  return manager.turnSnapshots.length > minTurns;
+}
+
+export function canRedo(manager: HistoryManager): boolean {
+  return manager.redoTurns.length > 0;
+}
+
+/**
+ * Roll back the last whole turn: the buy or skip plus every leather patch it triggered.
+ * Restores the snapshot taken before the turn instead of replaying from the seed.
+ */
+export function undoTurn(manager: HistoryManager): UndoResult | null {
+  const snapshot = manager.turnSnapshots.pop();
+  if (!snapshot) return null;
+
+  const undoneActions = manager.history.actions.splice(snapshot.actionIndex);
+  manager.redoTurns.push(undoneActions);
+  manager.lockedTurns = Math.min(manager.lockedTurns, manager.turnSnapshots.length);
+  delete manager.history.finalScores;
+
+  return { state: snapshot.state, playerIndex: snapshot.playerIndex };
+}
+
+/**
+ * Re-apply the most recently undone turn on top of the given state.
+ */
+export function redoTurn(manager: HistoryManager, state: GameState): UndoResult | null {
+  const actions = manager.redoTurns.pop();
+  if (!actions || actions.length === 0) return null;
+
+  // Apply every action before recording any, so a failed redo leaves history untouched
+  const states: GameState[] = [state];
+  for (const action of actions) {
+    const result = applyAction(states[states.length - 1], action);
+    if (result.error !== null) {
+      console.error('Cannot redo turn:', result.error);
+      manager.redoTurns = [];
+      return null;
+    }
+    states.push(result.state);
+  }
+
+  // recordAction clears the redo stack, so keep the remaining undone turns aside
+  const remainingRedoTurns = manager.redoTurns;
+  actions.forEach((action, i) => recordAction(manager, action, states[i]));
+  manager.redoTurns = remainingRedoTurns;
+
+  return { state: states[states.length - 1], playerIndex: actions[0].playerIndex };
+}
@@ -0,0 +1,61 @@
+import type { BoardSize, Patch, RuleSet } from './types';
+import { PATCH_DEFINITIONS } from './patches';
+import { STANDARD_RULES } from './rules';
+
+// A board size together with the patch set, time track and bonus square played on it
+export interface BoardVariant {
+  boardSize: BoardSize;
+  name: string;
+  bonusSquareSize: number;  // Side of the filled square that earns the bonus
+  patchIds: number[] | null;  // Market patches by id, or null for the whole catalog
+  rules: RuleSet;  // Rules for a new game; the standard board uses the house rules instead
+}
+
+export const BOARD_VARIANTS: Record<BoardSize, BoardVariant> = {
+  9: {
+    boardSize: 9,
+    name: 'Standard',
+    bonusSquareSize: 7,
+    patchIds: null,
+    rules: STANDARD_RULES,
+  },
+  7: {
+    boardSize: 7,
+    name: 'Express',
+    bonusSquareSize: 5,
+    // The catalog patches of five cells or fewer
+    patchIds: [1, 2, 3, 4, 6, 7, 8, 12, 13, 14, 15, 19, 21, 22, 23, 24, 26, 30, 31, 32],
+    rules: {
+      startingButtons: 5,
+      timeTrackLength: 35,
+      incomePositions: [5, 11, 17, 23, 29, 35],
+      leatherPatchPositions: [8, 18, 28],
+      marketSize: 3,
+      emptyCellPenalty: 2,
+      bonus7x7Points: 5,
+      trackTieOrder: 'stacking',
+      scoreTieBreak: 'finishedFirst',
+      neutralTokenStart: 'afterSmallestPatch',
+    },
+  },
+};
+
+// Setup screen order
+export const BOARD_SIZES: BoardSize[] = [9, 7];
+
+export function isBoardSize(value: unknown): value is BoardSize {
+  return BOARD_SIZES.includes(value as BoardSize);
+}
+
+export function getBonusSquareSize(boardSize: BoardSize): number {
+  return BOARD_VARIANTS[boardSize].bonusSquareSize;
+}
+
+/**
+ * The patches a variant's market is shuffled from, in catalog order.
+ */
+export function getVariantPatches(boardSize: BoardSize): Patch[] {
+  const patchIds = BOARD_VARIANTS[boardSize].patchIds;
+  if (patchIds === null) return [...PATCH_DEFINITIONS];
+  return PATCH_DEFINITIONS.filter(patch => patchIds.includes(patch.id));
+}
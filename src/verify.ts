@@ -0,0 +1,101 @@
+import type { GameState } from './types';
+import type { GameAction, GameHistory } from './history';
+import { applyAction, createInitialState, getCrossedLeatherPositions } from './engine';
+import { calculateScore, getAvailablePatches, isGameOver } from './game';
+
+// The first point where a history disagrees with the rules engine
+export interface HistoryDivergence {
+  actionIndex: number | null;  // Index in history.actions, or null for the final scores
+  action: GameAction | null;
+  reason: string;
+}
+
+export interface VerificationReport {
+  valid: boolean;
+  actionsVerified: number;  // Actions replayed before the divergence (all of them when valid)
+  divergence: HistoryDivergence | null;
+  finalState: GameState;    // State after the verified actions
+}
+
+/**
+ * Replay a history from its seed and check every recorded detail against the engine:
+ * legality, patch ids against market slots, skip distances, leather patch ownership
+ * and order, and the final scores. Stops at the first divergence.
+ */
+export function verifyHistory(history: GameHistory): VerificationReport {
+  let state = createInitialState(history);
+  // Leather patches crossed but not yet placed, in the order they were crossed
+  let pendingLeather: { trackPosition: number; playerIndex: 0 | 1 }[] = [];
+
+  const diverged = (actionIndex: number | null, reason: string): VerificationReport => ({
+    valid: false,
+    actionsVerified: actionIndex ?? history.actions.length,
+    divergence: {
+      actionIndex,
+      action: actionIndex !== null ? history.actions[actionIndex] : null,
+      reason,
+    },
+    finalState: state,
+  });
+
+  for (let i = 0; i < history.actions.length; i++) {
+    const action = history.actions[i];
+
+    if (action.type === 'leatherPatch') {
+      const expected = pendingLeather[0];
+      if (!expected) return diverged(i, 'Leather patch placed without being crossed');
+      if (expected.trackPosition !== action.trackPosition || expected.playerIndex !== action.playerIndex) {
+        return diverged(i, `Expected player ${expected.playerIndex + 1} to place the leather patch at ${expected.trackPosition}`);
+      }
+    } else {
+      if (pendingLeather.length > 0) {
+        return diverged(i, `Leather patch at ${pendingLeather[0].trackPosition} was never placed`);
+      }
+      if (action.type === 'buyPatch') {
+        const patch = getAvailablePatches(state)[action.patchIndex];
+        if (patch && patch.id !== action.patchId) {
+          return diverged(i, `Market slot ${action.patchIndex + 1} holds patch ${patch.id}, not ${action.patchId}`);
+        }
+      }
+    }
+
+    const result = applyAction(state, action);
+    if (result.error !== null) return diverged(i, result.error);
+
+    for (const event of result.events) {
+      if (event.type === 'skipped' && action.type === 'skip' && event.spacesSkipped !== action.spacesSkipped) {
+        return diverged(i, `Skip moves ${event.spacesSkipped} spaces, not ${action.spacesSkipped}`);
+      }
+    }
+
+    if (action.type === 'leatherPatch') {
+      pendingLeather = pendingLeather.slice(1);
+    } else {
+      pendingLeather = getCrossedLeatherPositions(result.events)
+        .map(trackPosition => ({ trackPosition, playerIndex: action.playerIndex }));
+    }
+    state = result.state;
+  }
+
+  if (history.finalScores) {
+    if (!isGameOver(state) || pendingLeather.length > 0) {
+      return diverged(null, 'Final scores recorded before the game was over');
+    }
+    const scores = [calculateScore(state.players[0], state.rules), calculateScore(state.players[1], state.rules)];
+    if (scores[0] !== history.finalScores[0] || scores[1] !== history.finalScores[1]) {
+      return diverged(null, `Final scores are ${scores[0]} and ${scores[1]}, not ${history.finalScores[0]} and ${history.finalScores[1]}`);
+    }
+  }
+
+  return { valid: true, actionsVerified: history.actions.length, divergence: null, finalState: state };
+}
+
+/**
+ * One-line description of a failed verification, for toasts and logs.
+ */
+export function describeDivergence(report: VerificationReport): string {
+  const divergence = report.divergence;
+  if (!divergence) return 'History is valid';
+  if (divergence.actionIndex === null) return divergence.reason;
+  return `Action ${divergence.actionIndex + 1}: ${divergence.reason}`;
+}